@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  DIETARY_LABELS,
+  DIETARY_TYPES,
+  EMPTY_KASHRUT_FILTER,
+  HECHSHERS,
+  isKashrutFilterEmpty,
+  type Dietary,
+  type KashrutFilter,
+} from "../lib/kashrut";
+
+type Props = {
+  value: KashrutFilter;
+  onChange: (next: KashrutFilter) => void;
+};
+
+export default function KashrutFilters({ value, onChange }: Props) {
+  function toggleHechsher(h: string) {
+    const hechshers = value.hechshers.includes(h) ? value.hechshers.filter((x) => x !== h) : [...value.hechshers, h];
+    onChange({ ...value, hechshers });
+  }
+
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8, marginBottom: 14, fontSize: 13 }}>
+      <span style={{ color: "#444", fontWeight: 600 }}>Hechsher:</span>
+      {HECHSHERS.map((h) => {
+        const active = value.hechshers.includes(h);
+        return (
+          <button
+            key={h}
+            onClick={() => toggleHechsher(h)}
+            aria-pressed={active}
+            style={{
+              ...chipStyle,
+              background: active ? "#111" : "#fff",
+              color: active ? "#fff" : "#111",
+            }}
+          >
+            {h}
+          </button>
+        );
+      })}
+
+      <select
+        value={value.dietary ?? ""}
+        onChange={(e) => onChange({ ...value, dietary: (e.target.value || null) as Dietary | null })}
+        aria-label="Dairy, meat or pareve"
+        style={{ padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8, marginLeft: 6 }}
+      >
+        <option value="">Dairy / meat / pareve</option>
+        {DIETARY_TYPES.map((d) => (
+          <option key={d} value={d}>
+            {DIETARY_LABELS[d]}
+          </option>
+        ))}
+      </select>
+
+      <label style={checkLabelStyle}>
+        <input
+          type="checkbox"
+          checked={value.chalavYisrael}
+          onChange={(e) => onChange({ ...value, chalavYisrael: e.target.checked })}
+        />
+        Chalav Yisrael
+      </label>
+      <label style={checkLabelStyle}>
+        <input
+          type="checkbox"
+          checked={value.pasYisroel}
+          onChange={(e) => onChange({ ...value, pasYisroel: e.target.checked })}
+        />
+        Pas Yisroel
+      </label>
+      <label style={checkLabelStyle}>
+        <input
+          type="checkbox"
+          checked={value.kosherForPassover}
+          onChange={(e) => onChange({ ...value, kosherForPassover: e.target.checked })}
+        />
+        Kosher for Passover
+      </label>
+
+      {!isKashrutFilterEmpty(value) ? (
+        <button onClick={() => onChange(EMPTY_KASHRUT_FILTER)} style={{ ...chipStyle, border: "none", textDecoration: "underline" }}>
+          Clear
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+const chipStyle: React.CSSProperties = {
+  padding: "4px 10px",
+  borderRadius: 999,
+  border: "1px solid #ddd",
+  background: "#fff",
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: "pointer",
+};
+
+const checkLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+  color: "#444",
+};
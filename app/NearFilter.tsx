@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { NEAR_RADII_KM, normalizePostalCode, type Near } from "../lib/geo";
+import { setNear, useNear } from "../lib/near-me";
+
+const DEFAULT_RADIUS_KM = 5;
+
+type Props = {
+  // Called after the filter changes, e.g. to go back to page 1
+  onChange?: () => void;
+};
+
+// "Within X km of me / my postal code". The choice is remembered (lib/near-me.ts).
+export default function NearFilter({ onChange }: Props) {
+  const near = useNear();
+  const [postal, setPostal] = useState("");
+  const [km, setKm] = useState(DEFAULT_RADIUS_KM);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  function update(next: Near | null) {
+    setNear(next);
+    onChange?.();
+  }
+
+  function locateMe() {
+    setStatus("");
+    if (!navigator.geolocation) return setStatus("Your browser can’t share its location. Use a postal code.");
+
+    setBusy(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setBusy(false);
+        update({ lat: pos.coords.latitude, lng: pos.coords.longitude, km, label: "your location" });
+      },
+      () => {
+        setBusy(false);
+        setStatus("Couldn’t get your location. Allow location access or use a postal code.");
+      },
+      { maximumAge: 10 * 60 * 1000, timeout: 15000 }
+    );
+  }
+
+  async function lookUpPostalCode() {
+    setStatus("");
+    const code = normalizePostalCode(postal);
+    if (!code) return setStatus("Enter a postal code like M6B 1A1.");
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/geocode?q=${encodeURIComponent(code)}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? res.statusText);
+
+      update({ lat: body.lat, lng: body.lng, km, label: code });
+      setPostal("");
+    } catch (e) {
+      console.error(e);
+      setStatus(e instanceof Error ? e.message : "Couldn’t look up that postal code.");
+    }
+    setBusy(false);
+  }
+
+  if (near) {
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, marginBottom: 14 }}>
+        <span>
+          Stores within{" "}
+          <select
+            value={near.km}
+            onChange={(e) => update({ ...near, km: Number(e.target.value) })}
+            aria-label="Distance"
+            style={{ padding: "4px 6px" }}
+          >
+            {NEAR_RADII_KM.map((r) => (
+              <option key={r} value={r}>
+                {r} km
+              </option>
+            ))}
+          </select>{" "}
+          of <b>{near.label}</b>
+        </span>
+        <button onClick={() => update(null)} style={linkButtonStyle}>
+          Show all stores
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginBottom: 14, fontSize: 13 }}>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "#444", fontWeight: 600 }}>Near:</span>
+        <select
+          value={km}
+          onChange={(e) => setKm(Number(e.target.value))}
+          aria-label="Distance"
+          style={{ padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8 }}
+        >
+          {NEAR_RADII_KM.map((r) => (
+            <option key={r} value={r}>
+              within {r} km
+            </option>
+          ))}
+        </select>
+        <button onClick={locateMe} disabled={busy} style={chipStyle}>
+          of my location
+        </button>
+        <span style={{ color: "#777" }}>or</span>
+        <input
+          value={postal}
+          onChange={(e) => setPostal(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") lookUpPostalCode();
+          }}
+          placeholder="postal code"
+          aria-label="Postal code"
+          style={{ width: 110, padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8 }}
+        />
+        <button onClick={lookUpPostalCode} disabled={busy} style={chipStyle}>
+          Go
+        </button>
+      </div>
+      {status ? <div style={{ color: "crimson", marginTop: 6 }}>{status}</div> : null}
+    </div>
+  );
+}
+
+const chipStyle: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 999,
+  border: "1px solid #ddd",
+  background: "#fff",
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  textDecoration: "underline",
+  cursor: "pointer",
+  fontSize: 13,
+};
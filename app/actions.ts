@@ -0,0 +1,115 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { notifyApproved } from "../lib/alerts";
+import {
+  assessPrice,
+  insertSubmissions,
+  submissionTarget,
+  type DbClient,
+  type NewSubmission,
+  type ScoredSubmission,
+  type SubmissionTarget,
+} from "../lib/data";
+import { errorMessage } from "../lib/format";
+import { priceInputError } from "../lib/prices";
+import { SUBMITTER_COOKIE } from "../lib/submitter";
+import { createSupabaseAdminClient } from "../lib/supabase-admin";
+import { createSupabaseServerClient } from "../lib/supabase-server";
+
+const MAX_BATCH = 100;
+
+export type SubmitPriceResult =
+  | { error: string }
+  | { error: null; approved: boolean; flags: string[] };
+
+export type SubmitPricesResult = { error: string } | { error: null; approved: number; pending: number };
+
+// Prices go to variants still in the catalogue, at stores still taking them.
+// A variant that's new and awaiting review may be priced, but those prices
+// wait for a moderator too (only reviewed variants have a history to score
+// against anyway).
+function targetError({ variant, store }: SubmissionTarget): string | null {
+  if (!variant || variant.status === "rejected" || variant.status === "duplicate") {
+    return "That product isn’t in the catalogue.";
+  }
+  if (variant.archived_at) return "That product is no longer sold.";
+  if (!store?.is_active) return "That store isn’t taking prices.";
+  return null;
+}
+
+// Scoring runs on the server so a client can't talk its way into auto-approval.
+// `target` must already have passed targetError.
+async function score(client: DbClient, input: NewSubmission, target: SubmissionTarget): Promise<ScoredSubmission> {
+  const scored = await assessPrice(client, input);
+  return { input, assessment: { ...scored, autoApprove: scored.autoApprove && target.variant?.status === "approved" } };
+}
+
+// The outlier score and review state are the server's to set, which RLS
+// doesn't let the anon key do, so prices are written with the service role
+function save(submissions: ScoredSubmission[], submitterId: string | null) {
+  return insertSubmissions(createSupabaseAdminClient(), submissions, submitterId);
+}
+
+export async function submitPrice(input: NewSubmission): Promise<SubmitPriceResult> {
+  const invalid = priceInputError(input);
+  if (invalid) return { error: invalid };
+
+  try {
+    const client = await createSupabaseServerClient();
+    const submitterId = (await cookies()).get(SUBMITTER_COOKIE)?.value ?? null;
+
+    const target = await submissionTarget(client, input);
+    const refused = targetError(target);
+    if (refused) return { error: refused };
+
+    const scored = await score(client, input, target);
+    const [id] = await save([scored], submitterId);
+    const { assessment } = scored;
+
+    if (assessment.autoApprove) notifyApproved([id]);
+
+    return { error: null, approved: assessment.autoApprove, flags: assessment.flags };
+  } catch (e) {
+    console.error(e);
+    return { error: errorMessage(e) };
+  }
+}
+
+// Several prices at once (a confirmed receipt). Each is scored on its own,
+// exactly as if it had been submitted through /add. Every line is checked
+// before any is saved, and then they're saved together: all or none.
+export async function submitPrices(inputs: NewSubmission[]): Promise<SubmitPricesResult> {
+  if (inputs.length === 0) return { error: "Nothing to submit." };
+  if (inputs.length > MAX_BATCH) return { error: `At most ${MAX_BATCH} prices at a time.` };
+  for (const [i, input] of inputs.entries()) {
+    const invalid = priceInputError(input);
+    if (invalid) return { error: `Line ${i + 1}: ${invalid}` };
+  }
+
+  try {
+    const client = await createSupabaseServerClient();
+    const submitterId = (await cookies()).get(SUBMITTER_COOKIE)?.value ?? null;
+
+    const targets: SubmissionTarget[] = [];
+    for (const [i, input] of inputs.entries()) {
+      const target = await submissionTarget(client, input);
+      const refused = targetError(target);
+      if (refused) return { error: `Line ${i + 1}: ${refused}` };
+      targets.push(target);
+    }
+
+    const scored: ScoredSubmission[] = [];
+    for (const [i, input] of inputs.entries()) scored.push(await score(client, input, targets[i]));
+
+    const ids = await save(scored, submitterId);
+    const approvedIds = ids.filter((_, i) => scored[i].assessment.autoApprove);
+
+    if (approvedIds.length > 0) notifyApproved(approvedIds);
+
+    return { error: null, approved: approvedIds.length, pending: inputs.length - approvedIds.length };
+  } catch (e) {
+    console.error(e);
+    return { error: errorMessage(e) };
+  }
+}
@@ -1,98 +1,81 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { supabase } from "../../lib/supabase";
-
-type Brand = { id: string; name: string };
-type Product = { id: string; name: string };
+import {
+  createVariant,
+  getOrCreateBrand,
+  getOrCreateProduct,
+  listBrands,
+  listCategories,
+  listVariants,
+  type Brand,
+} from "../../lib/data";
+import { normalizeBarcode } from "../../lib/barcode";
+import { categoryTree, type Category } from "../../lib/categories";
+import { findSimilarVariants } from "../../lib/duplicates";
+import { errorMessage, normalizeName } from "../../lib/format";
+import { DIETARY_LABELS, DIETARY_TYPES, HECHSHERS, normalizeHechshers, type Dietary } from "../../lib/kashrut";
+import { HOLIDAYS, type Holiday } from "../../lib/seasons";
+import { SIZE_UNITS } from "../../lib/units";
+import { variantLabel, type Variant } from "../../lib/variants";
 
 export default function AddProductPage() {
   const [brands, setBrands] = useState<Brand[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
 
   // Form fields
   const [productName, setProductName] = useState("");
+  const [categoryId, setCategoryId] = useState("");
   const [brandId, setBrandId] = useState("");
   const [newBrandName, setNewBrandName] = useState("");
   const [sizeValue, setSizeValue] = useState(""); // numeric text
   const [sizeUnit, setSizeUnit] = useState("L");
   const [flavour, setFlavour] = useState("");
   const [notes, setNotes] = useState("");
+  const [barcode, setBarcode] = useState("");
+  const [hechshers, setHechshers] = useState<string[]>([]);
+  const [otherHechshers, setOtherHechshers] = useState(""); // comma-separated
+  const [dietary, setDietary] = useState<Dietary | "">("");
+  const [chalavYisrael, setChalavYisrael] = useState(false);
+  const [pasYisroel, setPasYisroel] = useState(false);
+  const [kosherForPassover, setKosherForPassover] = useState(false);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [createdId, setCreatedId] = useState("");
+  // Existing variants that look like the one being added
+  const [lookalikes, setLookalikes] = useState<Variant[]>([]);
 
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<string>("");
 
   useEffect(() => {
     async function load() {
-      const { data: b } = await supabase
-        .from("brands")
-        .select("id,name")
-        .order("name", { ascending: true });
-
-      setBrands(b ?? []);
+      try {
+        setBrands(await listBrands(supabase));
+        setCategories(await listCategories(supabase));
+      } catch (e) {
+        console.error(e);
+      }
+
+      // /add sends unknown scanned codes here
+      const scanned = new URLSearchParams(window.location.search).get("barcode");
+      if (scanned) setBarcode(scanned);
     }
     load();
   }, []);
 
   const brandOptions = useMemo(() => brands, [brands]);
 
-  function normalizeName(s: string) {
-    return s.trim().replace(/\s+/g, " ");
-  }
-
-  async function getOrCreateProduct(name: string) {
-    const { data, error } = await supabase
-      .from("products")
-      .upsert({ name }, { onConflict: "name" })
-      .select("id,name")
-      .single();
-
-    if (error) throw error;
-    return data as Product;
-  }
-
-  async function getOrCreateBrand(name: string) {
-    const { data, error } = await supabase
-      .from("brands")
-      .upsert({ name }, { onConflict: "name" })
-      .select("id,name")
-      .single();
-
-    if (error) throw error;
-    return data as Brand;
-  }
-
-  async function createVariant(args: {
-    product_id: string;
-    brand_id: string;
-    size_value: number | null;
-    size_unit: string | null;
-    flavour: string | null;
-    notes: string | null;
-  }) {
-    const { data: inserted, error: insErr } = await supabase
-      .from("product_variants")
-      .insert(args)
-      .select("id")
-      .single();
-
-    if (!insErr) return inserted;
-
-    const { data: existing, error: selErr } = await supabase
-      .from("product_variants")
-      .select("id")
-      .eq("product_id", args.product_id)
-      .eq("brand_id", args.brand_id)
-      .is("size_value", args.size_value)
-      .is("size_unit", args.size_unit)
-      .is("flavour", args.flavour)
-      .single();
-
-    if (selErr) throw insErr;
-    return existing;
+  function toggleHechsher(name: string, on: boolean) {
+    setHechshers((prev) => (on ? [...prev, name] : prev.filter((h) => h !== name)));
   }
 
-  async function submit() {
+  // `anyway`: the user has seen the lookalikes and still wants a new variant
+  async function submit(anyway = false) {
     setStatus("");
+    setCreatedId("");
+    setLookalikes([]);
 
     const pName = normalizeName(productName);
     if (!pName) return setStatus("Please enter a product name.");
@@ -108,13 +91,32 @@ export default function AddProductPage() {
     const unit = normalizeName(sizeUnit);
     if (sizeValNum !== null && !unit) return setStatus("Please choose a unit.");
 
+    const code = barcode.trim() ? normalizeBarcode(barcode) : null;
+    if (barcode.trim() && !code) return setStatus("That barcode doesn’t look right. Check the digits under the bars.");
+
     setSaving(true);
 
     try {
-      const product = await getOrCreateProduct(pName);
+      if (!anyway) {
+        const candidate = {
+          product_name: pName,
+          brand_name: usingNewBrand ? normalizeName(newBrandName) : (brands.find((b) => b.id === brandId)?.name ?? ""),
+          size_value: sizeValNum,
+          size_unit: sizeValNum === null ? null : unit,
+          flavour: flavour.trim() ? flavour.trim() : null,
+        };
+        const similar = findSimilarVariants(candidate, await listVariants(supabase));
+        if (similar.length > 0) {
+          setLookalikes(similar);
+          setSaving(false);
+          return;
+        }
+      }
+
+      const product = await getOrCreateProduct(supabase, pName, categoryId || null);
 
       const brand = usingNewBrand
-        ? await getOrCreateBrand(normalizeName(newBrandName))
+        ? await getOrCreateBrand(supabase, normalizeName(newBrandName))
         : brands.find((b) => b.id === brandId);
 
       if (!brand) throw new Error("Brand not found (try refresh and select again).");
@@ -126,28 +128,41 @@ export default function AddProductPage() {
         size_unit: sizeValNum === null ? null : unit,
         flavour: flavour.trim() ? flavour.trim() : null,
         notes: normalizeName(notes) ? normalizeName(notes) : null,
+        barcode: code,
+        hechshers: normalizeHechshers([...hechshers, ...otherHechshers.split(",")]),
+        dietary: dietary || null,
+        chalav_yisrael: dietary === "dairy" && chalavYisrael,
+        pas_yisroel: pasYisroel,
+        kosher_for_passover: kosherForPassover,
+        holidays,
       };
 
-      const variant = await createVariant(variantArgs);
+      const variantId = await createVariant(supabase, variantArgs);
 
       // Refresh brand list (in case you added a new one)
-      const { data: b } = await supabase
-        .from("brands")
-        .select("id,name")
-        .order("name", { ascending: true });
-      setBrands(b ?? []);
+      setBrands(await listBrands(supabase));
 
-      setStatus(`Saved! Variant created (id: ${variant.id}). You can now submit a price on /add.`);
+      setStatus("Saved! New products show up for everyone once a moderator approves them.");
+      setCreatedId(variantId);
       setProductName("");
+      setCategoryId("");
       setBrandId("");
       setNewBrandName("");
       setSizeValue("");
       setSizeUnit("L");
       setFlavour("");
       setNotes("");
-    } catch (e: any) {
+      setBarcode("");
+      setHechshers([]);
+      setOtherHechshers("");
+      setDietary("");
+      setChalavYisrael(false);
+      setPasYisroel(false);
+      setKosherForPassover(false);
+      setHolidays([]);
+    } catch (e) {
       console.error(e);
-      setStatus(`Error: ${e?.message ?? "Unknown error"}`);
+      setStatus(`Error: ${errorMessage(e)}`);
     }
 
     setSaving(false);
@@ -178,7 +193,21 @@ export default function AddProductPage() {
             placeholder="e.g. Grape Juice"
             style={inputStyle}
           />
-          <div style={hintStyle}>This is the general product category.</div>
+          <div style={hintStyle}>The generic name, without brand or size.</div>
+        </label>
+
+        <label>
+          Category
+          <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} style={inputStyle}>
+            <option value="">Not sure</option>
+            {categoryTree(categories).map(({ category, depth }) => (
+              <option key={category.id} value={category.id}>
+                {"\u00a0\u00a0\u00a0".repeat(depth)}
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <div style={hintStyle}>Where this shows up on the price grid, e.g. Dairy › Cheese. Pick the closest one.</div>
         </label>
 
         <label>
@@ -219,14 +248,11 @@ export default function AddProductPage() {
           <label>
             Unit
             <select value={sizeUnit} onChange={(e) => setSizeUnit(e.target.value)} style={inputStyle}>
-              <option value="L">L</option>
-              <option value="ml">ml</option>
-              <option value="kg">kg</option>
-              <option value="g">g</option>
-              <option value="lb">lb</option>
-              <option value="oz">oz</option>
-              <option value="pack">pack</option>
-              <option value="each">each</option>
+              {SIZE_UNITS.map((u) => (
+                <option key={u} value={u}>
+                  {u}
+                </option>
+              ))}
             </select>
           </label>
         </div>
@@ -251,17 +277,141 @@ export default function AddProductPage() {
           />
         </label>
 
-        <button onClick={submit} disabled={saving} style={buttonStyle}>
+        <label>
+          Barcode (optional)
+          <input
+            value={barcode}
+            onChange={(e) => setBarcode(e.target.value)}
+            placeholder="UPC or EAN, e.g. 073390012345"
+            inputMode="numeric"
+            style={inputStyle}
+          />
+          <div style={hintStyle}>The number under the bars. Lets people scan this item on /add.</div>
+        </label>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, display: "grid", gap: 10 }}>
+          <legend style={{ fontWeight: 700, padding: "0 4px" }}>Kashrut (as printed on the pack)</legend>
+
+          <div>
+            Hechsher
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 10, marginTop: 6 }}>
+              {HECHSHERS.map((h) => (
+                <label key={h} style={checkLabelStyle}>
+                  <input
+                    type="checkbox"
+                    checked={hechshers.includes(h)}
+                    onChange={(e) => toggleHechsher(h, e.target.checked)}
+                  />
+                  {h}
+                </label>
+              ))}
+            </div>
+            <input
+              value={otherHechshers}
+              onChange={(e) => setOtherHechshers(e.target.value)}
+              placeholder="Other, e.g. “Kashruth Council of Canada”"
+              style={inputStyle}
+            />
+            <div style={hintStyle}>Tick every symbol on the pack. Separate other names with commas.</div>
+          </div>
+
+          <label>
+            Dairy / meat / pareve
+            <select value={dietary} onChange={(e) => setDietary(e.target.value as Dietary | "")} style={inputStyle}>
+              <option value="">Not sure</option>
+              {DIETARY_TYPES.map((d) => (
+                <option key={d} value={d}>
+                  {DIETARY_LABELS[d]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 14 }}>
+            <label style={{ ...checkLabelStyle, opacity: dietary === "dairy" ? 1 : 0.5 }}>
+              <input
+                type="checkbox"
+                checked={dietary === "dairy" && chalavYisrael}
+                disabled={dietary !== "dairy"}
+                onChange={(e) => setChalavYisrael(e.target.checked)}
+              />
+              Chalav Yisrael
+            </label>
+            <label style={checkLabelStyle}>
+              <input type="checkbox" checked={pasYisroel} onChange={(e) => setPasYisroel(e.target.checked)} />
+              Pas Yisroel
+            </label>
+            <label style={checkLabelStyle}>
+              <input
+                type="checkbox"
+                checked={kosherForPassover}
+                onChange={(e) => setKosherForPassover(e.target.checked)}
+              />
+              Kosher for Passover
+            </label>
+          </div>
+        </fieldset>
+
+        <div>
+          Seasonal (optional)
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 10, marginTop: 6 }}>
+            {HOLIDAYS.map((h) => (
+              <label key={h.value} style={checkLabelStyle}>
+                <input
+                  type="checkbox"
+                  checked={holidays.includes(h.value)}
+                  onChange={(e) =>
+                    setHolidays((prev) => (e.target.checked ? [...prev, h.value] : prev.filter((x) => x !== h.value)))
+                  }
+                />
+                {h.label}
+              </label>
+            ))}
+          </div>
+          <div style={hintStyle}>Holidays people stock up on this for. It shows in that holiday’s season view.</div>
+        </div>
+
+        <button onClick={() => submit()} disabled={saving} style={buttonStyle}>
           {saving ? "Saving..." : "Create product variant"}
         </button>
 
+        {lookalikes.length > 0 ? (
+          <div style={{ border: "1px solid #fde1a8", background: "#fff7e6", borderRadius: 8, padding: 12, fontSize: 14 }}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>This looks like something already in the catalogue:</div>
+            <ul style={{ margin: "0 0 10px", paddingLeft: 18 }}>
+              {lookalikes.map((v) => (
+                <li key={v.id}>
+                  {variantLabel(v)}{" "}
+                  <Link href={`/add?variant=${v.id}`} style={{ textDecoration: "underline" }}>
+                    Submit a price for it
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => submit(true)} disabled={saving} style={{ ...buttonStyle, background: "#fff", color: "#111" }}>
+              It’s different, create it anyway
+            </button>
+          </div>
+        ) : null}
+
         {status ? (
-          <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>{status}</div>
+          <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>
+            {status}{" "}
+            {createdId ? (
+              <Link href={`/add?variant=${createdId}`} style={{ textDecoration: "underline" }}>
+                Submit a price for it
+              </Link>
+            ) : null}
+          </div>
         ) : null}
 
         <div style={{ display: "flex", gap: 14 }}>
-          <a href="/add" style={{ textDecoration: "underline" }}>Submit a price</a>
-          <a href="/" style={{ textDecoration: "underline" }}>Back to homepage</a>
+          <Link href="/add" style={{ textDecoration: "underline" }}>
+            Submit a price
+          </Link>
+          <Link href="/" style={{ textDecoration: "underline" }}>
+            Back to homepage
+          </Link>
         </div>
       </div>
     </main>
@@ -292,3 +442,9 @@ const hintStyle: React.CSSProperties = {
   color: "#777",
   marginTop: 6,
 };
+
+const checkLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+};
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BARCODE_FORMATS, normalizeBarcode } from "../../lib/barcode";
+
+// BarcodeDetector isn't in TypeScript's DOM types yet (and only some browsers
+// ship it), so it's looked up at runtime.
+type BarcodeDetectorLike = { detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]> };
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+function barcodeDetector(): BarcodeDetectorCtor | null {
+  return (globalThis as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector ?? null;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+type Props = {
+  // Called with a normalised, checksum-valid code
+  onCode: (code: string) => void;
+};
+
+export default function BarcodeScanner({ onCode }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [scanning, setScanning] = useState(false);
+  const [manual, setManual] = useState("");
+  const [status, setStatus] = useState("");
+
+  function stop() {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }
+
+  // Release the camera when leaving the page mid-scan
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  async function start() {
+    setStatus("");
+
+    const Detector = barcodeDetector();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      return setStatus("Camera scanning isn’t supported in this browser. Type the number instead.");
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setScanning(true);
+
+      const video = videoRef.current!;
+      video.srcObject = stream;
+      await video.play();
+
+      const detector = new Detector({ formats: BARCODE_FORMATS });
+      const tick = async () => {
+        if (!streamRef.current) return;
+        try {
+          for (const { rawValue } of await detector.detect(video)) {
+            const code = normalizeBarcode(rawValue);
+            if (code) {
+              stop();
+              return onCode(code);
+            }
+          }
+        } catch (e) {
+          console.error(e);
+        }
+        timerRef.current = setTimeout(tick, SCAN_INTERVAL_MS);
+      };
+      tick();
+    } catch (e) {
+      console.error(e);
+      stop();
+      setStatus("Couldn’t open the camera. Allow camera access or type the number instead.");
+    }
+  }
+
+  function submitManual() {
+    const code = normalizeBarcode(manual);
+    if (!code) return setStatus("That barcode doesn’t look right. Check the digits under the bars.");
+    setStatus("");
+    setManual("");
+    onCode(code);
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        style={{ display: scanning ? "block" : "none", width: "100%", maxHeight: 260, borderRadius: 8, background: "#000" }}
+      />
+
+      <div style={{ display: "flex", gap: 8 }}>
+        {scanning ? (
+          <button onClick={stop} style={secondaryButtonStyle}>
+            Stop camera
+          </button>
+        ) : (
+          <button onClick={start} style={secondaryButtonStyle}>
+            Scan barcode
+          </button>
+        )}
+        <input
+          value={manual}
+          onChange={(e) => setManual(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitManual();
+          }}
+          placeholder="or type the barcode number"
+          inputMode="numeric"
+          style={{ flex: 1, padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
+        />
+        <button onClick={submitManual} style={secondaryButtonStyle}>
+          Look up
+        </button>
+      </div>
+
+      {status ? <div style={{ color: "crimson", fontSize: 13 }}>{status}</div> : null}
+    </div>
+  );
+}
+
+const secondaryButtonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#fff",
+  color: "#111",
+  fontWeight: 700,
+  cursor: "pointer",
+  whiteSpace: "nowrap",
+};
@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  createVariant,
+  getOrCreateBrand,
+  getOrCreateProduct,
+  listBrands,
+  listCategories,
+  listVariants,
+  type Brand,
+} from "../../lib/data";
+import { categoryTree, type Category } from "../../lib/categories";
+import { findSimilarVariants } from "../../lib/duplicates";
+import { errorMessage, normalizeName } from "../../lib/format";
+import { NO_KASHRUT } from "../../lib/kashrut";
+import { supabase } from "../../lib/supabase";
+import { SIZE_UNITS } from "../../lib/units";
+import { variantLabel, type Variant } from "../../lib/variants";
+
+type Props = {
+  initialName: string;
+  onCreated: (variant: Variant) => void;
+  // One of the lookalikes was picked instead of creating a new variant
+  onPicked: (variant: Variant) => void;
+  onCancel: () => void;
+};
+
+// Compact version of /add-product, for when the item isn't in the catalogue yet
+export default function CreateVariantForm({ initialName, onCreated, onPicked, onCancel }: Props) {
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  const [productName, setProductName] = useState(initialName);
+  const [categoryId, setCategoryId] = useState("");
+  const [brandName, setBrandName] = useState("");
+  const [sizeValue, setSizeValue] = useState("");
+  const [sizeUnit, setSizeUnit] = useState("L");
+  const [flavour, setFlavour] = useState("");
+  // Existing variants that look like the one being added (as on /add-product)
+  const [lookalikes, setLookalikes] = useState<Variant[]>([]);
+
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    listBrands(supabase).then(setBrands, console.error);
+    listCategories(supabase).then(setCategories, console.error);
+  }, []);
+
+  // `anyway`: the user has seen the lookalikes and still wants a new variant
+  async function save(anyway = false) {
+    setStatus("");
+    setLookalikes([]);
+
+    const pName = normalizeName(productName);
+    if (!pName) return setStatus("Please enter a product name.");
+
+    const bName = normalizeName(brandName);
+    if (!bName) return setStatus("Please enter a brand.");
+
+    const sizeValNum = normalizeName(sizeValue) === "" ? null : Number(sizeValue);
+    if (sizeValNum !== null && (!Number.isFinite(sizeValNum) || sizeValNum <= 0)) {
+      return setStatus("Size must be a positive number (or leave it blank).");
+    }
+
+    setSaving(true);
+
+    try {
+      if (!anyway) {
+        const candidate = {
+          product_name: pName,
+          brand_name: bName,
+          size_value: sizeValNum,
+          size_unit: sizeValNum === null ? null : sizeUnit,
+          flavour: flavour.trim() ? flavour.trim() : null,
+        };
+        const similar = findSimilarVariants(candidate, await listVariants(supabase));
+        if (similar.length > 0) {
+          setLookalikes(similar);
+          setSaving(false);
+          return;
+        }
+      }
+
+      const product = await getOrCreateProduct(supabase, pName, categoryId || null);
+      // Reuse the existing spelling when the brand only differs in case
+      const brand =
+        brands.find((b) => b.name.toLowerCase() === bName.toLowerCase()) ?? (await getOrCreateBrand(supabase, bName));
+
+      const variant = {
+        product_id: product.id,
+        brand_id: brand.id,
+        size_value: sizeValNum,
+        size_unit: sizeValNum === null ? null : sizeUnit,
+        flavour: flavour.trim() ? flavour.trim() : null,
+        notes: null,
+        barcode: null,
+        holidays: [],
+        ...NO_KASHRUT,
+      };
+      const id = await createVariant(supabase, variant);
+
+      onCreated({
+        id,
+        product_name: product.name,
+        brand_name: brand.name,
+        category_id: product.category_id,
+        size_value: variant.size_value,
+        size_unit: variant.size_unit,
+        flavour: variant.flavour,
+        holidays: variant.holidays,
+        ...NO_KASHRUT,
+      });
+    } catch (e) {
+      console.error(e);
+      setStatus(`Error: ${errorMessage(e)}`);
+    }
+
+    setSaving(false);
+  }
+
+  return (
+    <div style={{ border: "1px solid #eee", borderRadius: 10, padding: 12, marginTop: 6, display: "grid", gap: 10 }}>
+      <div style={{ fontWeight: 800 }}>New product</div>
+
+      <label>
+        Product name
+        <input
+          value={productName}
+          onChange={(e) => setProductName(e.target.value)}
+          placeholder="e.g. Grape Juice"
+          style={inputStyle}
+        />
+      </label>
+
+      <label>
+        Category
+        <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} style={inputStyle}>
+          <option value="">Not sure</option>
+          {categoryTree(categories).map(({ category, depth }) => (
+            <option key={category.id} value={category.id}>
+              {"\u00a0\u00a0\u00a0".repeat(depth)}
+              {category.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        Brand
+        <input
+          value={brandName}
+          onChange={(e) => setBrandName(e.target.value)}
+          placeholder="e.g. Kedem"
+          list="create-variant-brands"
+          style={inputStyle}
+        />
+        <datalist id="create-variant-brands">
+          {brands.map((b) => (
+            <option key={b.id} value={b.name} />
+          ))}
+        </datalist>
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label>
+          Size (optional)
+          <input
+            value={sizeValue}
+            onChange={(e) => setSizeValue(e.target.value)}
+            placeholder="e.g. 1.5"
+            inputMode="decimal"
+            style={inputStyle}
+          />
+        </label>
+
+        <label>
+          Unit
+          <select value={sizeUnit} onChange={(e) => setSizeUnit(e.target.value)} style={inputStyle}>
+            {SIZE_UNITS.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label>
+        Flavour (optional)
+        <input value={flavour} onChange={(e) => setFlavour(e.target.value)} placeholder="e.g. Concord" style={inputStyle} />
+      </label>
+
+      <div style={{ display: "flex", gap: 10 }}>
+        <button onClick={() => save()} disabled={saving} style={buttonStyle}>
+          {saving ? "Saving..." : "Create and select"}
+        </button>
+        <button onClick={onCancel} disabled={saving} style={{ ...buttonStyle, background: "#fff", color: "#111" }}>
+          Cancel
+        </button>
+      </div>
+
+      {lookalikes.length > 0 ? (
+        <div style={{ border: "1px solid #fde1a8", background: "#fff7e6", borderRadius: 8, padding: 12, fontSize: 14 }}>
+          <div style={{ fontWeight: 700, marginBottom: 6 }}>This looks like something already in the catalogue:</div>
+          <ul style={{ margin: "0 0 10px", paddingLeft: 18 }}>
+            {lookalikes.map((v) => (
+              <li key={v.id}>
+                {variantLabel(v)}{" "}
+                <button onClick={() => onPicked(v)} disabled={saving} style={linkButtonStyle}>
+                  Use this one
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button onClick={() => save(true)} disabled={saving} style={{ ...buttonStyle, background: "#fff", color: "#111" }}>
+            It’s different, create it anyway
+          </button>
+        </div>
+      ) : null}
+
+      {status ? <div style={{ color: "crimson" }}>{status}</div> : null}
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 700,
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: 0,
+  background: "none",
+  textDecoration: "underline",
+  cursor: "pointer",
+};
@@ -0,0 +1,243 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { useRecentVariants } from "../../lib/recent-variants";
+import { searchVariants } from "../../lib/search";
+import { variantLabel, type Variant } from "../../lib/variants";
+import CreateVariantForm from "./CreateVariantForm";
+
+const MAX_RESULTS = 40;
+
+type Group = { product: string; brands: { brand: string; variants: Variant[] }[] };
+
+// Groups by product, then brand, in order of each one's best-ranked variant
+function groupVariants(variants: Variant[]): Group[] {
+  const groups: Group[] = [];
+  for (const v of variants) {
+    let group = groups.find((g) => g.product === v.product_name);
+    if (!group) groups.push((group = { product: v.product_name, brands: [] }));
+
+    let brand = group.brands.find((b) => b.brand === v.brand_name);
+    if (!brand) group.brands.push((brand = { brand: v.brand_name, variants: [] }));
+
+    brand.variants.push(v);
+  }
+  return groups;
+}
+
+function optionLabel(v: Variant) {
+  const parts = [v.size_value != null && v.size_unit ? `${v.size_value}${v.size_unit}` : "", v.flavour ?? ""];
+  return parts.filter(Boolean).join(" — ") || "Standard";
+}
+
+type Props = {
+  variants: Variant[];
+  value: string;
+  onChange: (variantId: string) => void;
+  // A variant was created inline; the parent adds it to `variants` and selects it
+  onCreated: (variant: Variant) => void;
+};
+
+export default function VariantCombobox({ variants, value, onChange, onCreated }: Props) {
+  const recentIds = useRecentVariants();
+  const listId = useId();
+
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const [creating, setCreating] = useState(false);
+
+  const selected = variants.find((v) => v.id === value) ?? null;
+  const showingRecent = !query.trim();
+
+  const groups = useMemo(() => {
+    if (showingRecent) {
+      const byId = new Map(variants.map((v) => [v.id, v]));
+      const recent = recentIds.map((id) => byId.get(id)).filter((v): v is Variant => !!v);
+      return groupVariants(recent);
+    }
+    return groupVariants(searchVariants(variants, query, (v) => v).slice(0, MAX_RESULTS));
+  }, [variants, query, recentIds, showingRecent]);
+
+  // Keyboard order follows the grouped display order
+  const flat = useMemo(() => groups.flatMap((g) => g.brands.flatMap((b) => b.variants)), [groups]);
+
+  function pick(v: Variant) {
+    onChange(v.id);
+    setQuery("");
+    setOpen(false);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActive((i) => Math.min(i + 1, flat.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && open && flat[active]) {
+      e.preventDefault();
+      pick(flat[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  if (creating) {
+    return (
+      <CreateVariantForm
+        initialName={query.trim()}
+        onCreated={(v) => {
+          onCreated(v);
+          setCreating(false);
+          setQuery("");
+        }}
+        onPicked={(v) => {
+          pick(v);
+          setCreating(false);
+        }}
+        onCancel={() => setCreating(false)}
+      />
+    );
+  }
+
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        value={open ? query : selected ? variantLabel(selected) : query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder="Search, e.g. kedem grape 1.5L"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        style={inputStyle}
+      />
+
+      {open ? (
+        // mouseDown keeps focus in the input so the click lands before blur closes the list
+        <div id={listId} style={dropdownStyle} role="listbox" onMouseDown={(e) => e.preventDefault()}>
+          {showingRecent && flat.length > 0 ? <div style={sectionStyle}>Recently used</div> : null}
+          {showingRecent && flat.length === 0 ? (
+            <div style={emptyStyle}>Start typing to find a product.</div>
+          ) : null}
+
+          {groups.map((g) => (
+            <div key={g.product}>
+              <div style={productStyle}>{g.product}</div>
+              {g.brands.map((b) => (
+                <div key={b.brand}>
+                  <div style={brandStyle}>{b.brand}</div>
+                  {b.variants.map((v) => {
+                    const i = flat.indexOf(v);
+                    return (
+                      <button
+                        key={v.id}
+                        role="option"
+                        aria-selected={v.id === value}
+                        onClick={() => pick(v)}
+                        onMouseEnter={() => setActive(i)}
+                        style={{
+                          ...optionStyle,
+                          background: i === active ? "#f2f2f2" : undefined,
+                          fontWeight: v.id === value ? 700 : 400,
+                        }}
+                      >
+                        {optionLabel(v)}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {!showingRecent && flat.length === 0 ? (
+            <div style={emptyStyle}>
+              No match for “{query.trim()}”.{" "}
+              <button onClick={() => setCreating(true)} style={createStyle}>
+                + Create this product
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const dropdownStyle: React.CSSProperties = {
+  position: "absolute",
+  top: "100%",
+  left: 0,
+  right: 0,
+  zIndex: 10,
+  maxHeight: 360,
+  overflowY: "auto",
+  background: "white",
+  border: "1px solid #ddd",
+  borderRadius: 8,
+  marginTop: 4,
+  boxShadow: "0 10px 30px rgba(0,0,0,0.1)",
+};
+
+const sectionStyle: React.CSSProperties = {
+  padding: "8px 10px 0",
+  fontSize: 12,
+  color: "#777",
+  textTransform: "uppercase",
+  letterSpacing: 0.5,
+};
+
+const productStyle: React.CSSProperties = {
+  padding: "8px 10px 2px",
+  fontWeight: 800,
+};
+
+const brandStyle: React.CSSProperties = {
+  padding: "2px 10px 2px 18px",
+  fontSize: 13,
+  color: "#555",
+  fontWeight: 600,
+};
+
+const optionStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  textAlign: "left",
+  padding: "8px 10px 8px 28px",
+  border: 0,
+  background: "none",
+  cursor: "pointer",
+};
+
+const emptyStyle: React.CSSProperties = {
+  padding: 10,
+  color: "#666",
+};
+
+const createStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  padding: 0,
+  fontWeight: 700,
+  textDecoration: "underline",
+  cursor: "pointer",
+};
@@ -1,18 +1,16 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { supabase } from "../../lib/supabase";
-
-type Store = { id: string; name: string; sort_order: number };
-
-type Variant = {
-  id: string;
-  product_name: string;
-  brand_name: string;
-  size_value: number | null;
-  size_unit: string | null;
-  flavour: string | null;
-};
+import { findVariantByBarcode, getPriceableVariant, listStores, listVariants } from "../../lib/data";
+import type { PriceType, Store } from "../../lib/prices";
+import { rememberVariant } from "../../lib/recent-variants";
+import { variantLabel, type Variant } from "../../lib/variants";
+import { submitPrice } from "../actions";
+import BarcodeScanner from "./BarcodeScanner";
+import VariantCombobox from "./VariantCombobox";
 
 export default function AddPage() {
   const [stores, setStores] = useState<Store[]>([]);
@@ -22,48 +20,54 @@ export default function AddPage() {
   const [variantId, setVariantId] = useState("");
   const [price, setPrice] = useState("");
 
-  const [priceType, setPriceType] = useState<"regular" | "sale">("regular");
+  const [priceType, setPriceType] = useState<PriceType>("regular");
   const [saleEndDate, setSaleEndDate] = useState(""); // optional YYYY-MM-DD
 
   const [status, setStatus] = useState<string>("");
+  const router = useRouter();
 
   useEffect(() => {
     async function load() {
-      const { data: s } = await supabase
-        .from("stores")
-        .select("id,name,sort_order")
-        .order("sort_order", { ascending: true });
-
-      const { data: vData, error: vErr } = await supabase
-        .from("product_variants")
-        .select("id, size_value, size_unit, flavour, products(name), brands(name)")
-        .limit(5000);
-
-      if (vErr) console.error(vErr);
-
-      const mapped: Variant[] = (vData ?? []).map((v: any) => ({
-        id: v.id,
-        product_name: v.products?.name ?? "",
-        brand_name: v.brands?.name ?? "",
-        size_value: v.size_value,
-        size_unit: v.size_unit,
-        flavour: v.flavour,
-      }));
-
-      mapped.sort((a, b) => {
-        const keyA = `${a.product_name} ${a.brand_name} ${a.size_value ?? ""}${a.size_unit ?? ""} ${a.flavour ?? ""}`.toLowerCase();
-        const keyB = `${b.product_name} ${b.brand_name} ${b.size_value ?? ""}${b.size_unit ?? ""} ${b.flavour ?? ""}`.toLowerCase();
-        return keyA.localeCompare(keyB);
-      });
-
-      setStores(s ?? []);
-      setVariants(mapped);
+      try {
+        setStores(await listStores(supabase));
+        setVariants(await listVariants(supabase));
+
+        // Arriving from /add-product right after creating a variant, which
+        // isn't listed until a moderator approves it. Archived, rejected and
+        // merged-away variants can't be priced, so they aren't picked.
+        const preselect = new URLSearchParams(window.location.search).get("variant");
+        if (preselect) {
+          const found = await getPriceableVariant(supabase, preselect);
+          if (found) {
+            setVariants((prev) => (prev.some((v) => v.id === found.id) ? prev : [...prev, found]));
+            setVariantId(found.id);
+          }
+        }
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load stores and products.");
+      }
     }
 
     load();
   }, []);
 
-  const variantOptions = useMemo(() => variants, [variants]);
+  async function lookUpBarcode(code: string) {
+    try {
+      const found = await findVariantByBarcode(supabase, code);
+      if (!found) {
+        // Unknown code: create the product first, with the barcode filled in
+        router.push(`/add-product?barcode=${code}`);
+        return;
+      }
+      setVariants((prev) => (prev.some((v) => v.id === found.id) ? prev : [...prev, found]));
+      setVariantId(found.id);
+      setStatus(`Found: ${variantLabel(found)}. Now enter the price.`);
+    } catch (e) {
+      console.error(e);
+      setStatus("Error: could not look up that barcode.");
+    }
+  }
 
   async function submit() {
     setStatus("");
@@ -76,7 +80,7 @@ export default function AddPage() {
 
     const cents = Math.round(dollars * 100);
 
-    const { error } = await supabase.from("price_submissions").insert({
+    const result = await submitPrice({
       store_id: storeId,
       variant_id: variantId,
       price_cents: cents,
@@ -84,9 +88,17 @@ export default function AddPage() {
       sale_end_date: priceType === "sale" && saleEndDate ? saleEndDate : null,
     });
 
-    if (error) return setStatus("Error: " + error.message);
+    if (result.error !== null) return setStatus("Error: " + result.error);
+
+    rememberVariant(variantId);
 
-    setStatus("Saved! If it doesn’t appear right away, it may be pending approval.");
+    if (result.approved) {
+      setStatus("Saved and published! It matches recent prices for this item.");
+    } else if (result.flags.length > 0) {
+      setStatus(`Saved! A moderator will double-check it first: ${result.flags.join("; ")}.`);
+    } else {
+      setStatus("Saved! It’s marked pending (visible only to you) until a moderator approves it.");
+    }
     setPrice("");
   }
 
@@ -120,37 +132,39 @@ export default function AddPage() {
           </select>
         </label>
 
-        <label>
+        <div>
+          Scan the item
+          <div style={{ marginTop: 6 }}>
+            <BarcodeScanner onCode={lookUpBarcode} />
+          </div>
+        </div>
+
+        <div>
           Product (brand + size + flavour)
-          <select value={variantId} onChange={(e) => setVariantId(e.target.value)} style={inputStyle}>
-            <option value="">Select…</option>
-            {variantOptions.map((v) => {
-              const size =
-                v.size_value != null && v.size_unit ? ` — ${v.size_value}${v.size_unit}` : "";
-              const flav = v.flavour ? ` — ${v.flavour}` : "";
-              return (
-                <option key={v.id} value={v.id}>
-                  {v.brand_name} — {v.product_name}
-                  {size}
-                  {flav}
-                </option>
-              );
-            })}
-          </select>
+          <VariantCombobox
+            variants={variants}
+            value={variantId}
+            onChange={setVariantId}
+            onCreated={(v) => {
+              setVariants((prev) => [...prev, v]);
+              setVariantId(v.id);
+            }}
+          />
 
           <div style={{ fontSize: 12, marginTop: 6 }}>
-            Missing an item?{" "}
-            <a href="/add-product" style={{ textDecoration: "underline" }}>
-              Add a product
-            </a>
+            Missing an item? Search for it and create it, or{" "}
+            <Link href="/add-product" style={{ textDecoration: "underline" }}>
+              add a product
+            </Link>
+            .
           </div>
-        </label>
+        </div>
 
         <label>
           Type
           <select
             value={priceType}
-            onChange={(e) => setPriceType(e.target.value as "regular" | "sale")}
+            onChange={(e) => setPriceType(e.target.value as PriceType)}
             style={inputStyle}
           >
             <option value="regular">Regular</option>
@@ -181,9 +195,13 @@ export default function AddPage() {
 
         {status ? <div>{status}</div> : null}
 
-        <a href="/" style={{ textDecoration: "underline" }}>
+        <Link href="/receipt" style={{ textDecoration: "underline" }}>
+          Have a receipt? Submit all its prices at once
+        </Link>
+
+        <Link href="/" style={{ textDecoration: "underline" }}>
           Back to homepage
-        </a>
+        </Link>
       </div>
     </main>
   );
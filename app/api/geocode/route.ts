@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { errorMessage } from "../../../lib/format";
+import { normalizePostalCode } from "../../../lib/geo";
+import { GeocoderBusyError, getGeocoder } from "../../../lib/geocode";
+import { createRateLimiter } from "../../../lib/rate-limit";
+
+// Per client, so one visitor can't use up the geocoder for everyone
+const LOOKUPS_PER_MINUTE = 10;
+const limiter = createRateLimiter(LOOKUPS_PER_MINUTE, 60_000);
+
+// The host's proxy appends the address it saw to X-Forwarded-For. Anything
+// before that came from the client, which can put whatever it likes there, so
+// only the last entry is trusted.
+function clientKey(req: NextRequest) {
+  return req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() || "unknown";
+}
+
+// GET /api/geocode?q=<postal code or address>
+// Server-side so the geocoder's endpoint and contact address stay in env.
+export async function GET(req: NextRequest) {
+  const q = (req.nextUrl.searchParams.get("q") ?? "").trim();
+  if (!q) return NextResponse.json({ error: "Enter a postal code or address." }, { status: 400 });
+
+  const geocoder = getGeocoder();
+  if (!geocoder) return NextResponse.json({ error: "Address lookup isn’t set up on this server." }, { status: 503 });
+
+  const wait = limiter.take(clientKey(req));
+  if (wait > 0) {
+    return NextResponse.json(
+      { error: "Too many lookups. Try again in a minute." },
+      { status: 429, headers: { "Retry-After": String(wait) } }
+    );
+  }
+
+  try {
+    const postal = normalizePostalCode(q);
+    const hit = await geocoder.geocode(postal ?? q);
+    if (!hit) return NextResponse.json({ error: `Couldn’t find “${q}”.` }, { status: 404 });
+
+    // A postal code reads better than the geocoder's long display name
+    return NextResponse.json({ ...hit, label: postal ?? hit.label });
+  } catch (e) {
+    if (e instanceof GeocoderBusyError) {
+      return NextResponse.json({ error: e.message }, { status: 503, headers: { "Retry-After": "10" } });
+    }
+    console.error(e);
+    const message = errorMessage(e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseAdminClient } from "../../../lib/supabase-admin";
+import { createSupabaseServerClient } from "../../../lib/supabase-server";
+import { categoryOrder, categoryPaths, categoryStats, categorySubtree } from "../../../lib/categories";
+import {
+  fetchApprovedSubmissions,
+  latestPrices,
+  listCategories,
+  listSeasons,
+  listStores,
+  listVariants,
+} from "../../../lib/data";
+import { errorMessage } from "../../../lib/format";
+import { nearFromParams, storesNear } from "../../../lib/geo";
+import { kashrutFilterFromParams, matchesKashrut } from "../../../lib/kashrut";
+import {
+  buildPriceRow,
+  cheapestPrice,
+  hasAnyPrice,
+  type Mode,
+  type PriceGridResponse,
+  type SeasonView,
+} from "../../../lib/prices";
+import { isSeasonal, lowestPrices, previousSeason, seasonRange } from "../../../lib/seasons";
+import { SUBMITTER_COOKIE } from "../../../lib/submitter";
+import { searchVariants } from "../../../lib/search";
+import { rankSizes } from "../../../lib/units";
+import { variantSortKey } from "../../../lib/variants";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseMode(value: string | null): Mode {
+  return value === "regular" || value === "sale" ? value : "best";
+}
+
+function parsePositiveInt(value: string | null, fallback: number) {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+// GET /api/prices?q=&mode=best|regular|sale&page=1&pageSize=50&onlyWithPrices=1
+//     &hechsher=COR,OU&dietary=dairy|meat|pareve&cy=1&py=1&kfp=1&season=<seasonId>
+//     &lat=43.73&lng=-79.43&km=5  (only stores within 5 km: columns and cheapest)
+//     &category=<categoryId>|none  (that category and its subcategories; none = uncategorised)
+// or  /api/prices?ids=<variantId>,<variantId>…  to fetch specific variants.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const q = (params.get("q") ?? "").trim();
+  // Anything that isn't a variant id can't match one
+  const ids = new Set((params.get("ids") ?? "").split(",").filter((id) => UUID_RE.test(id)));
+  const idsRequested = params.has("ids");
+  const mode = parseMode(params.get("mode"));
+  // Explicitly requested variants come back even without prices
+  const onlyWithPrices = !idsRequested && params.get("onlyWithPrices") !== "0";
+  const kashrut = kashrutFilterFromParams(params);
+  const seasonId = params.get("season");
+  const near = nearFromParams(params);
+  const categoryId = params.get("category");
+  const page = parsePositiveInt(params.get("page"), 1);
+  const pageSize = Math.min(parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const allStores = await listStores(supabase);
+    const { stores, distances } = near
+      ? storesNear(allStores, near)
+      : { stores: allStores, distances: null };
+    const categories = await listCategories(supabase);
+    const paths = categoryPaths(categories);
+    // Only the variants asked for are read, and only their prices
+    const variants = await listVariants(supabase, {
+      ids: idsRequested ? [...ids] : undefined,
+      categoryIds: categoryId ? categorySubtree(paths, categoryId) : undefined,
+    });
+    const narrowed = idsRequested || !!categoryId;
+
+    // Season mode: only that season's items, priced from that season's
+    // submissions, next to the lowest prices of the same holiday last time.
+    let season: SeasonView | null = null;
+    if (seasonId) {
+      const seasons = await listSeasons(supabase);
+      const current = seasons.find((s) => s.id === seasonId);
+      if (!current) return NextResponse.json({ error: "Season not found." }, { status: 404 });
+      season = { current, previous: previousSeason(seasons, current) };
+    }
+
+    // RLS hides pending rows from everyone but moderators, so the viewer's own
+    // pending prices are read with the service role, filtered by their cookie
+    // (latest_prices only runs as the service role).
+    const latest = await latestPrices(
+      createSupabaseAdminClient(),
+      req.cookies.get(SUBMITTER_COOKIE)?.value ?? null,
+      season ? seasonRange(season.current) : undefined,
+      narrowed ? variants.map((v) => v.id) : undefined
+    );
+
+    const allRows = variants.map((v) => buildPriceRow(v, stores, latest, mode));
+
+    if (season?.previous) {
+      const lows = lowestPrices(await fetchApprovedSubmissions(supabase, seasonRange(season.previous)), mode);
+      for (const row of allRows) {
+        for (const [storeId, price] of Object.entries(lows[row.variant.id] ?? {})) {
+          if (row.cells[storeId]) row.cells[storeId].lastSeason = price;
+        }
+      }
+    }
+
+    // Rank sizes across the whole catalogue, before search and paging split groups up
+    const ranks = rankSizes(allRows.map((row) => ({ variant: row.variant, bestPrice: cheapestPrice(row) })));
+    for (const row of allRows) row.sizeRank = ranks.get(row.variant.id) ?? null;
+
+    // Grouped by category (in tree order), then alphabetical
+    const position = categoryOrder(categories);
+    const sorted = allRows.sort(
+      (a, b) =>
+        position(a.variant) - position(b.variant) || variantSortKey(a.variant).localeCompare(variantSortKey(b.variant))
+    );
+
+    // With a query, best matches come first; otherwise by category
+    const rows = searchVariants(sorted, q, (row) => row.variant)
+      .filter((row) => matchesKashrut(row.variant, kashrut))
+      .filter((row) => (season ? isSeasonal(row.variant, season.current) : true))
+      .filter((row) => (onlyWithPrices ? hasAnyPrice(row) : true));
+
+    const start = (page - 1) * pageSize;
+    const body: PriceGridResponse = {
+      stores,
+      rows: rows.slice(start, start + pageSize),
+      page,
+      pageSize,
+      total: rows.length,
+      season,
+      distances,
+      categoryStats: categoryStats(rows, paths),
+    };
+
+    return NextResponse.json(body);
+  } catch (e) {
+    console.error(e);
+    const message = errorMessage(e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { listVariants } from "../../../lib/data";
+import { errorMessage } from "../../../lib/format";
+import { getReceiptExtractor, matchReceiptLines, UnsupportedReceiptError, type ReceiptLine } from "../../../lib/receipts";
+import { createSupabaseServerClient } from "../../../lib/supabase-server";
+
+const MAX_BYTES = 10 * 1024 * 1024;
+
+// POST /api/receipts  (multipart: `file`, or `text` for pasted receipts)
+// Extracts line items and suggests a variant for each. Nothing is saved here;
+// the user confirms the lines and submits them through the submitPrices action.
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    const text = form.get("text");
+
+    let lines: ReceiptLine[];
+    if (file instanceof File && file.size > 0) {
+      if (file.size > MAX_BYTES) {
+        return NextResponse.json({ error: "That file is too big (10 MB max)." }, { status: 413 });
+      }
+      lines = await getReceiptExtractor().extract({
+        name: file.name,
+        type: file.type,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      });
+    } else if (typeof text === "string" && text.trim()) {
+      lines = await getReceiptExtractor().extract({
+        name: "receipt.txt",
+        type: "text/plain",
+        bytes: new TextEncoder().encode(text),
+      });
+    } else {
+      return NextResponse.json({ error: "Upload a receipt or paste its text." }, { status: 400 });
+    }
+
+    const variants = await listVariants(await createSupabaseServerClient());
+    return NextResponse.json({ lines: matchReceiptLines(lines, variants) });
+  } catch (e) {
+    if (e instanceof UnsupportedReceiptError) {
+      return NextResponse.json({ error: e.message }, { status: 415 });
+    }
+    console.error(e);
+    const message = errorMessage(e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { NOTIFICATION_SELECT, WATCH_SELECT, type Notification, type Watch } from "../../lib/alerts";
+import { money } from "../../lib/format";
+import { supabase } from "../../lib/supabase";
+import { mapVariantRow, VARIANT_SELECT, variantLabel } from "../../lib/variants";
+
+type WatchWithLabel = Watch & { label: string };
+
+export default function InboxPage() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [watches, setWatches] = useState<WatchWithLabel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(true);
+
+  useEffect(() => {
+    async function load() {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        setSignedIn(false);
+        setLoading(false);
+        return;
+      }
+
+      const { data: nData, error: nErr } = await supabase
+        .from("notifications")
+        .select(NOTIFICATION_SELECT)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      const { data: wData, error: wErr } = await supabase
+        .from("watches")
+        .select(`${WATCH_SELECT},product_variants(${VARIANT_SELECT})`)
+        .eq("user_id", user.id);
+
+      if (nErr) console.error(nErr);
+      if (wErr) console.error(wErr);
+
+      setNotifications(nData ?? []);
+      setWatches(
+        (wData ?? []).map(({ product_variants, ...w }) => ({
+          ...w,
+          label: product_variants ? variantLabel(mapVariantRow(product_variants)) : w.variant_id,
+        }))
+      );
+      setLoading(false);
+    }
+
+    load();
+  }, []);
+
+  async function markRead(ids: string[]) {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase.from("notifications").update({ read_at: readAt }).in("id", ids);
+    if (error) {
+      alert("Error: " + error.message);
+      return;
+    }
+
+    setNotifications((prev) => prev.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+  }
+
+  async function removeWatch(id: string) {
+    const { error } = await supabase.from("watches").delete().eq("id", id);
+    if (error) {
+      alert("Error: " + error.message);
+      return;
+    }
+    setWatches((prev) => prev.filter((w) => w.id !== id));
+  }
+
+  const unread = notifications.filter((n) => !n.read_at);
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 900,
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ fontSize: 32, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>
+        Inbox
+      </h1>
+
+      {loading ? (
+        <div style={{ color: "#666" }}>Loading…</div>
+      ) : !signedIn ? (
+        <div>
+          <Link href="/login?next=/inbox" style={{ textDecoration: "underline" }}>
+            Sign in
+          </Link>{" "}
+          to see your alerts.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: "flex", alignItems: "center", gap: 12, margin: "12px 0" }}>
+            <div style={{ color: "#666" }}>
+              {unread.length} unread alert{unread.length === 1 ? "" : "s"}
+            </div>
+            {unread.length > 0 ? (
+              <button onClick={() => markRead(unread.map((n) => n.id))} style={linkButtonStyle}>
+                Mark all read
+              </button>
+            ) : null}
+          </div>
+
+          {notifications.length === 0 ? (
+            <div style={{ color: "#666" }}>No alerts yet. Watch an item from its price history page.</div>
+          ) : (
+            <div style={{ display: "grid", gap: 8 }}>
+              {notifications.map((n) => (
+                <div
+                  key={n.id}
+                  style={{
+                    border: "1px solid #eee",
+                    borderRadius: 10,
+                    padding: 12,
+                    background: n.read_at ? undefined : "#f0fdf4",
+                  }}
+                >
+                  <div style={{ fontWeight: n.read_at ? 500 : 700 }}>{n.message}</div>
+                  <div style={{ fontSize: 12, color: "#777", marginTop: 4, display: "flex", gap: 12 }}>
+                    <span>{new Date(n.created_at).toLocaleString("en-CA")}</span>
+                    <Link href={`/variant/${n.variant_id}`} style={{ textDecoration: "underline" }}>
+                      Price history
+                    </Link>
+                    {!n.read_at ? (
+                      <button onClick={() => markRead([n.id])} style={linkButtonStyle}>
+                        Mark read
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <h2 style={{ fontSize: 18, fontWeight: 700, margin: "24px 0 8px" }}>Watching</h2>
+          {watches.length === 0 ? (
+            <div style={{ color: "#666" }}>Nothing yet.</div>
+          ) : (
+            <ul style={{ paddingLeft: 18 }}>
+              {watches.map((w) => (
+                <li key={w.id} style={{ marginBottom: 6 }}>
+                  <Link href={`/variant/${w.variant_id}`} style={{ textDecoration: "underline" }}>
+                    {w.label}
+                  </Link>
+                  <span style={{ color: "#666" }}>
+                    {w.target_price_cents != null ? ` · at or below ${money(w.target_price_cents)}` : ""}
+                    {w.notify_on_sale ? " · any sale" : ""}
+                  </span>{" "}
+                  <button onClick={() => removeWatch(w.id)} style={linkButtonStyle}>
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <div style={{ marginTop: 20 }}>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  padding: 0,
+  fontSize: "inherit",
+  textDecoration: "underline",
+  cursor: "pointer",
+};
@@ -0,0 +1,341 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { basketTotals, bestSplit } from "../../lib/basket";
+import { money } from "../../lib/format";
+import type { PriceGridResponse, PriceRow, Store } from "../../lib/prices";
+import { updateShoppingList, useShoppingList } from "../../lib/shopping-list";
+import { variantLabel } from "../../lib/variants";
+
+const MAX_SPLIT_STORES = 4;
+
+async function fetchGrid(params: Record<string, string>) {
+  const res = await fetch(`/api/prices?${new URLSearchParams(params)}`);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error ?? res.statusText);
+  return body as PriceGridResponse;
+}
+
+export default function ShoppingListPage() {
+  const items = useShoppingList();
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [rows, setRows] = useState<PriceRow[]>([]);
+  const [maxStores, setMaxStores] = useState(2);
+  const [status, setStatus] = useState("");
+
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PriceRow[]>([]);
+
+  const idsKey = items.map((i) => i.variantId).sort().join(",");
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const grid = await fetchGrid({ ids: idsKey, mode: "best", pageSize: "200" });
+        setStores(grid.stores);
+        setRows(idsKey ? grid.rows : []);
+        setStatus("");
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: " + (e instanceof Error ? e.message : "could not load prices"));
+      }
+    }
+
+    load();
+  }, [idsKey]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+
+    const t = setTimeout(async () => {
+      try {
+        const grid = await fetchGrid({ q, onlyWithPrices: "0", pageSize: "10" });
+        setResults(grid.rows);
+      } catch (e) {
+        console.error(e);
+      }
+    }, 250);
+    return () => clearTimeout(t);
+  }, [query]);
+
+  const rowById = useMemo(() => new Map(rows.map((r) => [r.variant.id, r])), [rows]);
+  const totals = useMemo(() => basketTotals(items, rows, stores), [items, rows, stores]);
+  const split = useMemo(() => bestSplit(items, rows, stores, maxStores), [items, rows, stores, maxStores]);
+  const storeName = useMemo(() => new Map(stores.map((s) => [s.id, s.name])), [stores]);
+
+  const completeTotals = totals.filter((t) => t.missing.length === 0);
+  const bestSingle = completeTotals.length
+    ? completeTotals.reduce((a, b) => (b.totalCents < a.totalCents ? b : a))
+    : null;
+
+  function addItem(variantId: string) {
+    updateShoppingList((prev) =>
+      prev.some((i) => i.variantId === variantId)
+        ? prev.map((i) => (i.variantId === variantId ? { ...i, qty: i.qty + 1 } : i))
+        : [...prev, { variantId, qty: 1 }]
+    );
+    setQuery("");
+    setResults([]);
+  }
+
+  function setQty(variantId: string, qty: number) {
+    updateShoppingList((prev) =>
+      prev.map((i) => (i.variantId === variantId ? { ...i, qty: Math.max(1, Math.round(qty)) } : i))
+    );
+  }
+
+  function removeItem(variantId: string) {
+    updateShoppingList((prev) => prev.filter((i) => i.variantId !== variantId));
+  }
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 1400,
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ fontSize: 32, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>
+        Shopping List
+      </h1>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        Add what you need and see where the whole basket is cheapest. Uses the best current price (sale if
+        active). Your list is saved in this browser.
+      </div>
+
+      <div style={{ position: "relative", maxWidth: 560, marginBottom: 18 }}>
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            if (!e.target.value.trim()) setResults([]);
+          }}
+          placeholder="Add a product…"
+          style={inputStyle}
+        />
+        {results.length > 0 ? (
+          <div style={dropdownStyle}>
+            {results.map((r) => (
+              <button key={r.variant.id} onClick={() => addItem(r.variant.id)} style={resultStyle}>
+                {variantLabel(r.variant)}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {status ? <div style={{ color: "crimson", marginBottom: 12 }}>{status}</div> : null}
+
+      {items.length === 0 ? (
+        <div style={{ color: "#666" }}>Your list is empty.</div>
+      ) : (
+        <>
+          <div style={{ overflowX: "auto", border: "1px solid #eee", borderRadius: 10 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>Item</th>
+                  <th style={thStyle}>Qty</th>
+                  {stores.map((s) => (
+                    <th key={s.id} style={thStyle}>
+                      {s.name}
+                    </th>
+                  ))}
+                  <th style={thStyle} />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const row = rowById.get(item.variantId);
+                  return (
+                    <tr key={item.variantId}>
+                      <td style={{ ...tdStyle, fontWeight: 600 }}>{row ? variantLabel(row.variant) : "…"}</td>
+                      <td style={tdStyle}>
+                        <input
+                          type="number"
+                          min={1}
+                          value={item.qty}
+                          onChange={(e) => setQty(item.variantId, Number(e.target.value) || 1)}
+                          style={{ width: 56, padding: 4 }}
+                        />
+                      </td>
+                      {stores.map((s) => {
+                        const price = row?.cells[s.id]?.price;
+                        const chosen = split?.assignments[item.variantId] === s.id;
+                        return (
+                          <td key={s.id} style={{ ...tdStyle, background: chosen ? "#eaf7ee" : undefined }}>
+                            {price == null ? (
+                              <span style={{ color: "crimson" }} title="No price at this store">
+                                no price
+                              </span>
+                            ) : (
+                              money(Math.round(price * 100) * item.qty)
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td style={tdStyle}>
+                        <button onClick={() => removeItem(item.variantId)} style={linkButtonStyle}>
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td style={{ ...tdStyle, fontWeight: 700 }} colSpan={2}>
+                    Basket total
+                  </td>
+                  {totals.map((t) => (
+                    <td
+                      key={t.storeId}
+                      style={{
+                        ...tdStyle,
+                        fontWeight: 700,
+                        background: bestSingle?.storeId === t.storeId ? "#eaf7ee" : undefined,
+                      }}
+                    >
+                      {money(t.totalCents)}
+                      {t.missing.length > 0 ? (
+                        <div style={{ fontSize: 12, fontWeight: 500, color: "crimson" }}>
+                          {t.missing.length} item{t.missing.length === 1 ? "" : "s"} missing
+                        </div>
+                      ) : null}
+                    </td>
+                  ))}
+                  <td style={tdStyle} />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div style={{ marginTop: 20, maxWidth: 640 }}>
+            <label style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 10 }}>
+              Visit at most
+              <select value={maxStores} onChange={(e) => setMaxStores(Number(e.target.value))} style={{ padding: 6 }}>
+                {Array.from({ length: MAX_SPLIT_STORES }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>
+                    {n} store{n === 1 ? "" : "s"}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {split ? (
+              <div style={{ border: "1px solid #eee", borderRadius: 10, padding: 14 }}>
+                <div style={{ fontWeight: 800, fontSize: 18 }}>
+                  Cheapest split: {money(split.totalCents)}
+                  {bestSingle && split.uncovered.length === 0 && bestSingle.totalCents > split.totalCents ? (
+                    <span style={{ fontSize: 14, fontWeight: 500, color: "#1f7a3a", marginLeft: 8 }}>
+                      saves {money(bestSingle.totalCents - split.totalCents)} vs.{" "}
+                      {storeName.get(bestSingle.storeId)} alone
+                    </span>
+                  ) : null}
+                </div>
+
+                {split.storeIds.map((storeId) => (
+                  <div key={storeId} style={{ marginTop: 10 }}>
+                    <div style={{ fontWeight: 700 }}>{storeName.get(storeId)}</div>
+                    <ul style={{ margin: "4px 0 0 18px" }}>
+                      {items
+                        .filter((i) => split.assignments[i.variantId] === storeId)
+                        .map((i) => {
+                          const row = rowById.get(i.variantId);
+                          return (
+                            <li key={i.variantId}>
+                              {i.qty} × {row ? variantLabel(row.variant) : "…"}
+                            </li>
+                          );
+                        })}
+                    </ul>
+                  </div>
+                ))}
+
+                {split.uncovered.length > 0 ? (
+                  <div style={{ marginTop: 10, color: "crimson" }}>
+                    No price at any of these stores for:{" "}
+                    {split.uncovered
+                      .map((id) => {
+                        const row = rowById.get(id);
+                        return row ? variantLabel(row.variant) : id;
+                      })
+                      .join(", ")}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        </>
+      )}
+
+      <div style={{ marginTop: 20 }}>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const dropdownStyle: React.CSSProperties = {
+  position: "absolute",
+  top: "100%",
+  left: 0,
+  right: 0,
+  zIndex: 10,
+  background: "white",
+  border: "1px solid #ddd",
+  borderRadius: 8,
+  marginTop: 4,
+  boxShadow: "0 10px 30px rgba(0,0,0,0.1)",
+};
+
+const resultStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  textAlign: "left",
+  padding: "8px 10px",
+  background: "none",
+  border: 0,
+  borderBottom: "1px solid #f2f2f2",
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  padding: 0,
+  textDecoration: "underline",
+  cursor: "pointer",
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 12,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+  whiteSpace: "nowrap",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 12,
+  borderBottom: "1px solid #f2f2f2",
+  whiteSpace: "nowrap",
+};
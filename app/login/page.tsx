@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabase } from "../../lib/supabase";
+
+export default function LoginPage() {
+  const router = useRouter();
+
+  const [mode, setMode] = useState<"signin" | "signup">("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string>("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setStatus("");
+
+    if (!email.trim() || !password) return setStatus("Enter your email and password.");
+
+    setSaving(true);
+    const { data, error } =
+      mode === "signin"
+        ? await supabase.auth.signInWithPassword({ email: email.trim(), password })
+        : await supabase.auth.signUp({ email: email.trim(), password });
+    setSaving(false);
+
+    if (error) return setStatus("Error: " + error.message);
+    // Projects with email confirmation on return no session until the link is clicked
+    if (!data.session) return setStatus("Check your email to confirm your account, then sign in.");
+
+    // Only follow same-site paths from ?next=
+    const next = new URLSearchParams(window.location.search).get("next");
+    router.replace(next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
+    router.refresh();
+  }
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 900,
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ fontSize: 32, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>
+        {mode === "signin" ? "Sign in" : "Create an account"}
+      </h1>
+      <div style={{ color: "#666", marginBottom: 18, lineHeight: 1.4 }}>
+        An account lets you watch items and get price alerts. Anyone can submit prices without signing in.
+      </div>
+
+      <form onSubmit={submit} style={{ display: "grid", gap: 12, maxWidth: 420 }}>
+        <label>
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            style={inputStyle}
+          />
+        </label>
+
+        <label>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === "signin" ? "current-password" : "new-password"}
+            style={inputStyle}
+          />
+        </label>
+
+        <button type="submit" disabled={saving} style={buttonStyle}>
+          {saving ? "Working..." : mode === "signin" ? "Sign in" : "Create account"}
+        </button>
+
+        {status ? (
+          <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>{status}</div>
+        ) : null}
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "signin" ? "signup" : "signin");
+            setStatus("");
+          }}
+          style={{ background: "none", border: 0, padding: 0, textAlign: "left", textDecoration: "underline", cursor: "pointer" }}
+        >
+          {mode === "signin" ? "New here? Create an account" : "Already have an account? Sign in"}
+        </button>
+
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </form>
+    </main>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 800,
+  cursor: "pointer",
+};
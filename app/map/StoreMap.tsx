@@ -0,0 +1,180 @@
+"use client";
+
+import { money } from "../../lib/format";
+import { storeLocation, TILE_SIZE, toWorldPixel, type LatLng } from "../../lib/geo";
+import type { PriceCell, Store } from "../../lib/prices";
+
+const WIDTH = 760;
+const HEIGHT = 440;
+const PADDING = 48;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 16;
+
+const TILE_URL = "https://tile.openstreetmap.org";
+
+// Highest zoom at which every point fits inside the padded frame
+function fitZoom(points: LatLng[]) {
+  for (let z = MAX_ZOOM; z > MIN_ZOOM; z--) {
+    const px = points.map((p) => toWorldPixel(p, z));
+    const w = Math.max(...px.map((p) => p.x)) - Math.min(...px.map((p) => p.x));
+    const h = Math.max(...px.map((p) => p.y)) - Math.min(...px.map((p) => p.y));
+    if (w <= WIDTH - 2 * PADDING && h <= HEIGHT - 2 * PADDING) return z;
+  }
+  return MIN_ZOOM;
+}
+
+type Props = {
+  stores: Store[];
+  cells: Record<string, PriceCell>;
+  cheapestStoreId: string | null;
+  // The "near me" point, if that filter is on
+  origin: LatLng | null;
+};
+
+// A static OpenStreetMap view with a price marker per store. Tiles are laid
+// out by hand (Web Mercator, see lib/geo.ts) so no map library is needed.
+export default function StoreMap({ stores, cells, cheapestStoreId, origin }: Props) {
+  const placed = stores.flatMap((s) => {
+    const loc = storeLocation(s);
+    return loc ? [{ store: s, loc }] : [];
+  });
+  const points = [...placed.map((p) => p.loc), ...(origin ? [origin] : [])];
+
+  if (points.length === 0) {
+    return <div style={{ ...frameStyle, display: "grid", placeItems: "center", color: "#888" }}>No store locations yet.</div>;
+  }
+
+  const zoom = fitZoom(points);
+  const px = points.map((p) => toWorldPixel(p, zoom));
+  const centre = {
+    x: (Math.min(...px.map((p) => p.x)) + Math.max(...px.map((p) => p.x))) / 2,
+    y: (Math.min(...px.map((p) => p.y)) + Math.max(...px.map((p) => p.y))) / 2,
+  };
+  const left = centre.x - WIDTH / 2;
+  const top = centre.y - HEIGHT / 2;
+
+  // Tiles covering the frame
+  const tileCount = 2 ** zoom;
+  const tiles: { key: string; x: number; y: number; url: string }[] = [];
+  for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + HEIGHT) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + WIDTH) / TILE_SIZE); tx++) {
+      const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${tx}/${ty}`,
+        x: tx * TILE_SIZE - left,
+        y: ty * TILE_SIZE - top,
+        url: `${TILE_URL}/${zoom}/${wrapped}/${ty}.png`,
+      });
+    }
+  }
+
+  function position(loc: LatLng) {
+    const p = toWorldPixel(loc, zoom);
+    return { left: p.x - left, top: p.y - top };
+  }
+
+  return (
+    <div style={frameStyle}>
+      {tiles.map((t) => (
+        <div
+          key={t.key}
+          aria-hidden
+          style={{
+            position: "absolute",
+            left: t.x,
+            top: t.y,
+            width: TILE_SIZE,
+            height: TILE_SIZE,
+            backgroundImage: `url(${t.url})`,
+            backgroundSize: "cover",
+          }}
+        />
+      ))}
+
+      {origin ? (
+        <div
+          title="You"
+          style={{
+            position: "absolute",
+            ...position(origin),
+            width: 14,
+            height: 14,
+            marginLeft: -7,
+            marginTop: -7,
+            borderRadius: "50%",
+            background: "#2563eb",
+            border: "2px solid #fff",
+            boxShadow: "0 0 0 1px #2563eb",
+          }}
+        />
+      ) : null}
+
+      {placed.map(({ store, loc }) => {
+        const price = cells[store.id]?.price;
+        const cheapest = store.id === cheapestStoreId;
+        return (
+          <div
+            key={store.id}
+            title={store.name}
+            style={{
+              ...markerStyle,
+              ...position(loc),
+              background: cheapest ? "#16a34a" : price != null ? "#111" : "#fff",
+              color: price != null ? "#fff" : "#666",
+              zIndex: cheapest ? 2 : 1,
+            }}
+          >
+            {price != null ? money(price) : "—"}
+            {cells[store.id]?.isSale ? " (sale)" : ""}
+            <div style={{ fontSize: 10, fontWeight: 500 }}>{store.name}</div>
+          </div>
+        );
+      })}
+
+      <div style={attributionStyle}>
+        ©{" "}
+        <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" style={{ color: "inherit" }}>
+          OpenStreetMap
+        </a>{" "}
+        contributors
+      </div>
+    </div>
+  );
+}
+
+const frameStyle: React.CSSProperties = {
+  position: "relative",
+  width: WIDTH,
+  maxWidth: "100%",
+  height: HEIGHT,
+  overflow: "hidden",
+  border: "1px solid #eee",
+  borderRadius: 10,
+  background: "#f2efe9",
+};
+
+// Anchored at the bottom centre, like a pin
+const markerStyle: React.CSSProperties = {
+  position: "absolute",
+  transform: "translate(-50%, -100%)",
+  padding: "3px 7px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  fontSize: 12,
+  fontWeight: 800,
+  whiteSpace: "nowrap",
+  textAlign: "center",
+  boxShadow: "0 1px 3px rgba(0,0,0,0.3)",
+};
+
+const attributionStyle: React.CSSProperties = {
+  position: "absolute",
+  right: 0,
+  bottom: 0,
+  padding: "2px 6px",
+  background: "rgba(255,255,255,0.8)",
+  fontSize: 11,
+  color: "#333",
+  zIndex: 3,
+};
@@ -0,0 +1,218 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "../../lib/supabase";
+import { listVariants } from "../../lib/data";
+import { money } from "../../lib/format";
+import { nearToParams } from "../../lib/geo";
+import { useNear } from "../../lib/near-me";
+import type { Mode, PriceGridResponse } from "../../lib/prices";
+import type { Variant } from "../../lib/variants";
+import VariantCombobox from "../add/VariantCombobox";
+import NearFilter from "../NearFilter";
+import StoreMap from "./StoreMap";
+
+export default function MapPage() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense>
+      <PriceMap />
+    </Suspense>
+  );
+}
+
+// Every store's price for one variant, on a map. /map?variant=<id>
+function PriceMap() {
+  const router = useRouter();
+  const variantId = useSearchParams().get("variant") ?? "";
+  const near = useNear();
+
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [mode, setMode] = useState<Mode>("best");
+  const [grid, setGrid] = useState<PriceGridResponse | null>(null);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    listVariants(supabase)
+      .then(setVariants)
+      .catch((e) => {
+        console.error(e);
+        setStatus("Error: could not load products.");
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!variantId) return;
+    const controller = new AbortController();
+
+    async function load() {
+      const params = new URLSearchParams({ ids: variantId, mode });
+      nearToParams(near, params);
+
+      try {
+        const res = await fetch(`/api/prices?${params}`, { signal: controller.signal });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error ?? res.statusText);
+        setGrid(body as PriceGridResponse);
+        setStatus("");
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error(e);
+        setStatus("Error: could not load prices.");
+      }
+    }
+
+    load();
+    return () => controller.abort();
+  }, [variantId, mode, near]);
+
+  function selectVariant(id: string) {
+    router.replace(id ? `/map?variant=${id}` : "/map");
+  }
+
+  const row = variantId ? grid?.rows.find((r) => r.variant.id === variantId) : undefined;
+  const stores = row ? grid!.stores : [];
+  const unplaced = stores.filter((s) => s.latitude == null || s.longitude == null);
+
+  // Cheapest first, then stores without a price
+  const listed = [...stores].sort((a, b) => {
+    const pa = row?.cells[a.id]?.price ?? Infinity;
+    const pb = row?.cells[b.id]?.price ?? Infinity;
+    return pa - pb;
+  });
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 1100,
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ fontSize: 28, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>Price map</h1>
+      <div style={{ color: "#666", marginBottom: 18 }}>
+        Pick a product to see what each store charges for it.{" "}
+        <Link href="/" style={{ color: "inherit" }}>
+          Back to all prices
+        </Link>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "flex-start", flexWrap: "wrap", marginBottom: 12 }}>
+        <div style={{ flex: "1 1 360px", maxWidth: 520 }}>
+          <VariantCombobox
+            variants={variants}
+            value={variantId}
+            onChange={selectVariant}
+            onCreated={(v) => {
+              setVariants((prev) => [...prev, v]);
+              selectVariant(v.id);
+            }}
+          />
+        </div>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as Mode)}
+          aria-label="Price"
+          style={{ padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
+        >
+          <option value="best">Best price</option>
+          <option value="regular">Regular price</option>
+          <option value="sale">Sale price</option>
+        </select>
+      </div>
+
+      <NearFilter />
+
+      {status ? <div style={{ color: "crimson", marginBottom: 12 }}>{status}</div> : null}
+
+      {!variantId ? null : !row ? (
+        <div style={{ color: "#666" }}>Loading…</div>
+      ) : (
+        <>
+          <StoreMap
+            stores={stores}
+            cells={row.cells}
+            cheapestStoreId={row.cheapestStoreId}
+            origin={near ? { lat: near.lat, lng: near.lng } : null}
+          />
+          {unplaced.length > 0 ? (
+            <div style={{ fontSize: 12, color: "#777", marginTop: 6 }}>
+              Not on the map (no location yet): {unplaced.map((s) => s.name).join(", ")}
+            </div>
+          ) : null}
+
+          <table style={{ width: "100%", maxWidth: 760, borderCollapse: "collapse", marginTop: 18 }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Store</th>
+                <th style={thStyle}>Price</th>
+                {grid?.distances ? <th style={thStyle}>Distance</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((s) => {
+                const cell = row.cells[s.id];
+                return (
+                  <tr key={s.id}>
+                    <td style={tdStyle}>{s.name}</td>
+                    <td
+                      style={{
+                        ...tdStyle,
+                        fontWeight: s.id === row.cheapestStoreId ? 800 : 400,
+                        color: s.id === row.cheapestStoreId ? "#166534" : undefined,
+                      }}
+                    >
+                      {cell?.price != null ? (
+                        <>
+                          {money(cell.price)}
+                          {cell.isSale ? " (sale)" : ""}
+                          {cell.pending ? " (pending)" : ""}
+                        </>
+                      ) : (
+                        <span style={{ color: "#aaa" }}>—</span>
+                      )}
+                    </td>
+                    {grid?.distances ? (
+                      <td style={tdStyle}>{grid.distances[s.id] != null ? `${grid.distances[s.id]} km` : "—"}</td>
+                    ) : null}
+                  </tr>
+                );
+              })}
+              {listed.length === 0 ? (
+                <tr>
+                  <td style={{ ...tdStyle, color: "#888" }} colSpan={3}>
+                    No stores in range.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+
+          <div style={{ marginTop: 14 }}>
+            <Link href={`/variant/${variantId}`} style={{ color: "#111" }}>
+              Price history for {row.variant.product_name} →
+            </Link>
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 10,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  fontSize: 14,
+};
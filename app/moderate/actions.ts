@@ -0,0 +1,526 @@
+"use server";
+
+import { notifyApproved } from "../../lib/alerts";
+import { ForbiddenError } from "../../lib/auth";
+import { diffChanges, validateVariant, type Changes } from "../../lib/catalogue";
+import type { Json } from "../../lib/database.types";
+import {
+  getVariant,
+  getVariantForEditing,
+  type DbClient,
+  type NewVariant,
+} from "../../lib/data";
+import { errorMessage, normalizeName } from "../../lib/format";
+import {
+  isCatalogueKind,
+  isRejectionReason,
+  type CatalogueKind,
+  type CatalogueStatus,
+  type SubmissionCorrection,
+} from "../../lib/moderation";
+import { isIsoDate, priceInputError } from "../../lib/prices";
+import { isHoliday, type Season } from "../../lib/seasons";
+import { validateStore, type StoreInput } from "../../lib/stores";
+import { requireModerator } from "../../lib/supabase-server";
+import { variantLabel } from "../../lib/variants";
+
+export type ActionResult = { error: string | null };
+
+function toResult(e: unknown): { error: string } {
+  if (e instanceof ForbiddenError) return { error: e.message };
+  console.error(e);
+  return { error: errorMessage(e) };
+}
+
+// Every decision is stamped with who made it and when. Rejected rows stay in
+// the table (with their reason) and simply drop out of the queue.
+function decision(moderatorId: string) {
+  return { reviewed_by: moderatorId, reviewed_at: new Date().toISOString() };
+}
+
+// How many of the submissions a bulk decision actually changed: any another
+// moderator reviewed meanwhile are left as they decided.
+export type DecisionResult = { error: string } | { error: null; updated: number };
+
+export async function approveSubmissions(ids: string[]): Promise<DecisionResult> {
+  try {
+    if (ids.length === 0) return { error: null, updated: 0 };
+
+    const { client, user } = await requireModerator();
+
+    const { data, error } = await client
+      .from("price_submissions")
+      .update({ is_approved: true, rejection_reason: null, ...decision(user.id) })
+      .in("id", ids)
+      .is("reviewed_at", null)
+      .select("id");
+
+    if (error) throw error;
+
+    const approved = data.map((r) => r.id);
+    if (approved.length > 0) notifyApproved(approved);
+    return { error: null, updated: approved.length };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+export async function rejectSubmissions(ids: string[], reason: string): Promise<DecisionResult> {
+  try {
+    if (!isRejectionReason(reason)) return { error: "Pick a rejection reason." };
+    if (ids.length === 0) return { error: null, updated: 0 };
+
+    const { client, user } = await requireModerator();
+
+    const { data, error } = await client
+      .from("price_submissions")
+      .update({ is_approved: false, rejection_reason: reason, ...decision(user.id) })
+      .in("id", ids)
+      .is("reviewed_at", null)
+      .select("id");
+
+    if (error) throw error;
+    return { error: null, updated: data.length };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+export async function editAndApproveSubmission(
+  id: string,
+  correction: SubmissionCorrection
+): Promise<ActionResult> {
+  try {
+    // A regular price has no end date, whatever was left in the form
+    const fields = {
+      price_cents: correction.price_cents,
+      price_type: correction.price_type,
+      sale_end_date: correction.price_type === "sale" ? correction.sale_end_date : null,
+    };
+    const invalid = priceInputError(fields);
+    if (invalid) return { error: invalid };
+
+    const { client, user } = await requireModerator();
+
+    const { data: current, error: selErr } = await client
+      .from("price_submissions")
+      .select("price_cents,original_price_cents")
+      .eq("id", id)
+      .single();
+    if (selErr) throw selErr;
+
+    const { data: updated, error } = await client
+      .from("price_submissions")
+      .update({
+        ...fields,
+        // Keep what the submitter originally typed, for auditing
+        original_price_cents: current.original_price_cents ?? current.price_cents,
+        is_approved: true,
+        rejection_reason: null,
+        ...decision(user.id),
+      })
+      .eq("id", id)
+      .is("reviewed_at", null)
+      .select("id");
+
+    if (error) throw error;
+    if (updated.length === 0) return { error: "Another moderator has already reviewed this price." };
+
+    notifyApproved([id]);
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+export type NewSeason = Omit<Season, "id">;
+
+export async function createSeason(season: NewSeason): Promise<ActionResult> {
+  try {
+    const name = season.name.trim().replace(/\s+/g, " ");
+    if (!name) return { error: "Give the season a name, e.g. “Pesach 2027”." };
+    if (!isHoliday(season.holiday)) return { error: "Pick a holiday." };
+    if (!isIsoDate(season.starts_on) || !isIsoDate(season.ends_on)) return { error: "Pick both dates." };
+    if (season.ends_on < season.starts_on) return { error: "The season can’t end before it starts." };
+
+    const { client } = await requireModerator();
+
+    const { error } = await client.from("seasons").insert({ ...season, name });
+    if (error?.message.includes("seasons_name_key")) return { error: `There’s already a season called “${name}”.` };
+    if (error) throw error;
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Only the season is removed; its prices stay in price_submissions.
+export async function deleteSeason(id: string): Promise<ActionResult> {
+  try {
+    const { client } = await requireModerator();
+
+    const { error } = await client.from("seasons").delete().eq("id", id);
+    if (error) throw error;
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+async function nextStoreSortOrder(client: DbClient) {
+  const { data, error } = await client
+    .from("stores")
+    .select("sort_order")
+    .order("sort_order", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.sort_order ?? 0) + 10;
+}
+
+// Creates the store when `id` is null. New stores go to the end of the order.
+export async function saveStore(id: string | null, input: StoreInput): Promise<ActionResult> {
+  try {
+    const { store, error: invalid } = validateStore(input);
+    if (invalid) return { error: invalid };
+
+    const { client } = await requireModerator();
+
+    const { error } = id
+      ? await client.from("stores").update(store).eq("id", id)
+      : await client.from("stores").insert({ ...store, sort_order: await nextStoreSortOrder(client) });
+
+    if (error?.message.includes("stores_name_key")) return { error: `There’s already a store called “${store.name}”.` };
+    if (error) throw error;
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Inactive stores drop out of the grid and /add; their prices are kept.
+export async function setStoreActive(id: string, active: boolean): Promise<ActionResult> {
+  try {
+    const { client } = await requireModerator();
+
+    const { error } = await client.from("stores").update({ is_active: active }).eq("id", id);
+    if (error) throw error;
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// `ids` in their new column order
+export async function reorderStores(ids: string[]): Promise<ActionResult> {
+  try {
+    const { client } = await requireModerator();
+
+    for (const [i, id] of ids.entries()) {
+      const { error } = await client
+        .from("stores")
+        .update({ sort_order: (i + 1) * 10 })
+        .eq("id", id);
+      if (error) throw error;
+    }
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Catalogue review. Like price decisions, each one is stamped; rejected and
+// duplicate entries stay in their tables and drop out of every listing.
+function catalogueDecision(moderatorId: string, status: CatalogueStatus, duplicateOf: string | null = null) {
+  return { status, duplicate_of: duplicateOf, ...decision(moderatorId) };
+}
+
+type CatalogueDecision = ReturnType<typeof catalogueDecision>;
+
+// Only entries still in one of `from` are touched, so a decision never
+// overwrites one made meanwhile by another moderator.
+async function reviewEntries(
+  client: DbClient,
+  kind: CatalogueKind,
+  ids: string[],
+  review: CatalogueDecision,
+  from: CatalogueStatus[] = ["pending"]
+) {
+  if (ids.length === 0) return;
+
+  const { error } =
+    kind === "brand"
+      ? await client.from("brands").update(review).in("id", ids).in("status", from)
+      : kind === "product"
+        ? await client.from("products").update(review).in("id", ids).in("status", from)
+        : await client.from("product_variants").update(review).in("id", ids).in("status", from);
+
+  if (error) throw error;
+}
+
+// Pending variants filed under a product or brand
+async function pendingVariantIds(client: DbClient, column: "product_id" | "brand_id", id: string) {
+  const { data, error } = await client
+    .from("product_variants")
+    .select("id")
+    .eq(column, id)
+    .eq("status", "pending");
+
+  if (error) throw error;
+  return data.map((v) => v.id);
+}
+
+const ALREADY_REVIEWED = "Another moderator has already reviewed this entry.";
+
+// Approving a variant also approves its product and brand: a variant can't be
+// published under an unreviewed name. They're only touched once the variant
+// itself turned out to be still pending.
+export async function approveCatalogueEntry(kind: string, id: string): Promise<ActionResult> {
+  try {
+    if (!isCatalogueKind(kind)) return { error: "Unknown catalogue entry." };
+
+    const { client, user } = await requireModerator();
+    const review = catalogueDecision(user.id, "approved");
+
+    if (kind !== "variant") {
+      await reviewEntries(client, kind, [id], review);
+      return { error: null };
+    }
+
+    const { data: approved, error } = await client
+      .from("product_variants")
+      .update(review)
+      .eq("id", id)
+      .eq("status", "pending")
+      .select("product_id,brand_id");
+    if (error) throw error;
+
+    const [variant] = approved;
+    if (!variant) return { error: ALREADY_REVIEWED };
+
+    await reviewEntries(client, "product", [variant.product_id], review, ["pending", "rejected"]);
+    await reviewEntries(client, "brand", [variant.brand_id], review, ["pending", "rejected"]);
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// A rejected variant gives up its barcode (so the right product can claim it)
+// and takes its unreviewed prices down with it. Variants another moderator
+// reviewed meanwhile, and their prices, are left alone. Returns the ids
+// actually rejected.
+async function rejectVariants(client: DbClient, ids: string[], moderatorId: string) {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await client
+    .from("product_variants")
+    .update({ ...catalogueDecision(moderatorId, "rejected"), barcode: null })
+    .in("id", ids)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw error;
+
+  const rejected = data.map((v) => v.id);
+  if (rejected.length === 0) return rejected;
+
+  const { error: subErr } = await client
+    .from("price_submissions")
+    .update({ is_approved: false, rejection_reason: "wrong_variant", ...decision(moderatorId) })
+    .in("variant_id", rejected)
+    .is("reviewed_at", null);
+  if (subErr) throw subErr;
+
+  return rejected;
+}
+
+// Rejecting a product or brand rejects the pending variants filed under it.
+export async function rejectCatalogueEntry(kind: string, id: string): Promise<ActionResult> {
+  try {
+    if (!isCatalogueKind(kind)) return { error: "Unknown catalogue entry." };
+
+    const { client, user } = await requireModerator();
+
+    if (kind === "variant") {
+      const rejected = await rejectVariants(client, [id], user.id);
+      if (rejected.length === 0) return { error: ALREADY_REVIEWED };
+    } else {
+      await rejectVariants(client, await pendingVariantIds(client, `${kind}_id`, id), user.id);
+      await reviewEntries(client, kind, [id], catalogueDecision(user.id, "rejected"));
+    }
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// How an entry reads in the merge log
+async function entryLabel(client: DbClient, kind: CatalogueKind, id: string) {
+  if (kind === "variant") {
+    const variant = await getVariant(client, id);
+    if (!variant) throw new Error("That variant no longer exists.");
+    return variantLabel(variant);
+  }
+
+  const { data, error } =
+    kind === "brand"
+      ? await client.from("brands").select("name").eq("id", id).single()
+      : await client.from("products").select("name").eq("id", id).single();
+  if (error) throw error;
+  return data.name;
+}
+
+// Folds a duplicate entry into `intoId`, which must be approved: "this is a
+// duplicate of…" in the catalogue queue, and the merge tool. The duplicate is
+// hidden and points at the survivor, everything filed under it moves across,
+// and the merge is logged in catalogue_merges, all in one transaction
+// (public.merge_catalogue_entries, which also re-checks both entries).
+export async function mergeCatalogueEntries(kind: string, id: string, intoId: string): Promise<ActionResult> {
+  try {
+    if (!isCatalogueKind(kind)) return { error: "Unknown catalogue entry." };
+    if (!intoId) return { error: "Pick the entry it duplicates." };
+    if (intoId === id) return { error: "An entry can’t be merged into itself." };
+
+    const { client } = await requireModerator();
+
+    const [fromLabel, intoLabel] = await Promise.all([entryLabel(client, kind, id), entryLabel(client, kind, intoId)]);
+
+    const { error } = await client.rpc("merge_catalogue_entries", {
+      entry_kind: kind,
+      entry_id: id,
+      survivor_id: intoId,
+      entry_label: fromLabel,
+      survivor_label: intoLabel,
+    });
+    if (error) throw error;
+
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Writes `patch` to the entry and keeps `changes` in catalogue_edits, stamped
+// like a decision, in one transaction (public.edit_catalogue_entry). A patch
+// that changes nothing is neither written nor logged. The error is returned
+// so callers can explain constraint violations.
+async function editEntry(
+  client: DbClient,
+  kind: CatalogueKind,
+  id: string,
+  patch: Record<string, Json | undefined>,
+  changes: Changes
+) {
+  const { error } = await client.rpc("edit_catalogue_entry", { entry_kind: kind, entry_id: id, patch, changes });
+  return error;
+}
+
+// Fixes a product's or brand's name everywhere it shows, e.g. a typo.
+export async function renameCatalogueEntry(kind: string, id: string, newName: string): Promise<ActionResult> {
+  try {
+    if (kind !== "brand" && kind !== "product") return { error: "Only brands and products have names." };
+    const name = normalizeName(newName);
+    if (!name) return { error: "The name can’t be blank." };
+
+    const { client } = await requireModerator();
+    const before = await entryLabel(client, kind, id);
+    if (before === name) return { error: null };
+
+    const error = await editEntry(client, kind, id, { name }, { name: { from: before, to: name } });
+
+    if (error?.message.includes(`${kind}s_name_key`)) {
+      return { error: `There’s already a ${kind} called “${name}”. If they’re the same, merge them instead.` };
+    }
+    if (error) throw error;
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Saves a corrected variant; the columns that changed are logged.
+export async function updateVariant(id: string, input: NewVariant): Promise<ActionResult> {
+  try {
+    const { variant, error: invalid } = validateVariant(input);
+    if (invalid) return { error: invalid };
+
+    const { client } = await requireModerator();
+
+    const current = await getVariantForEditing(client, id);
+    if (!current) return { error: "That variant no longer exists." };
+
+    const changes = diffChanges(current, variant);
+    if (Object.keys(changes).length === 0) return { error: null };
+
+    const error = await editEntry(client, "variant", id, variant, changes);
+
+    if (error?.message.includes("product_variants_identity_key")) {
+      return { error: "Another variant already has that product, brand, size and flavour. Merge them instead." };
+    }
+    if (error?.message.includes("product_variants_barcode_key")) {
+      return { error: "That barcode already belongs to another product." };
+    }
+    if (error) throw error;
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Archived variants drop out of the grid and /add; their prices are kept.
+export async function setVariantArchived(id: string, archived: boolean): Promise<ActionResult> {
+  try {
+    const { client } = await requireModerator();
+
+    const { data: current, error: selErr } = await client
+      .from("product_variants")
+      .select("archived_at")
+      .eq("id", id)
+      .single();
+    if (selErr) throw selErr;
+    // Only a real change is written, so the log has no no-op entries
+    if ((current.archived_at !== null) === archived) return { error: null };
+
+    const error = await editEntry(
+      client,
+      "variant",
+      id,
+      { archived_at: archived ? new Date().toISOString() : null },
+      { archived: { from: !archived, to: archived } }
+    );
+    if (error) throw error;
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
+
+// Files a product (and so its variants) under another category; null unfiles it.
+export async function setProductCategory(id: string, categoryId: string | null): Promise<ActionResult> {
+  try {
+    const { client } = await requireModerator();
+
+    const { data: current, error: selErr } = await client.from("products").select("category_id").eq("id", id).single();
+    if (selErr) throw selErr;
+    if (current.category_id === categoryId) return { error: null };
+
+    const error = await editEntry(
+      client,
+      "product",
+      id,
+      { category_id: categoryId },
+      { category_id: { from: current.category_id, to: categoryId } }
+    );
+    if (error) throw error;
+    return { error: null };
+  } catch (e) {
+    return toResult(e);
+  }
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "../../../lib/supabase";
+import {
+  listBrands,
+  listProducts,
+  listVariants,
+  pendingCatalogue,
+  type Brand,
+  type PendingCatalogue,
+  type PendingName,
+  type PendingVariant,
+  type Product,
+} from "../../../lib/data";
+import { findSimilarVariants, nameSimilarity, SIMILAR_NAME } from "../../../lib/duplicates";
+import { daysAgo } from "../../../lib/format";
+import { kashrutTags } from "../../../lib/kashrut";
+import type { CatalogueKind } from "../../../lib/moderation";
+import { holidayLabel } from "../../../lib/seasons";
+import { variantLabel, type Variant } from "../../../lib/variants";
+import { approveCatalogueEntry, mergeCatalogueEntries, rejectCatalogueEntry } from "../actions";
+
+const EMPTY_QUEUE: PendingCatalogue = { brands: [], products: [], variants: [] };
+
+export default function CataloguePage() {
+  const [queue, setQueue] = useState<PendingCatalogue>(EMPTY_QUEUE);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Approved entries, for "duplicate of…"
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [variants, setVariants] = useState<Variant[]>([]);
+
+  // Chosen original per pending entry id
+  const [originals, setOriginals] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+
+      try {
+        const [pending, b, p, v] = await Promise.all([
+          pendingCatalogue(supabase),
+          listBrands(supabase),
+          listProducts(supabase),
+          listVariants(supabase),
+        ]);
+        setQueue(pending);
+        setBrands(b);
+        setProducts(p);
+        setVariants(v);
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load the catalogue queue.");
+      }
+
+      setLoading(false);
+    }
+
+    load();
+  }, [reloadKey]);
+
+  async function decide(action: () => Promise<{ error: string | null }>) {
+    setStatus("");
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+
+    // Reloaded either way: an entry another moderator reviewed leaves the queue
+    if (result.error) setStatus("Error: " + result.error);
+    setReloadKey((k) => k + 1);
+  }
+
+  function reject(kind: CatalogueKind, id: string, warning: string) {
+    if (!window.confirm(warning)) return;
+    decide(() => rejectCatalogueEntry(kind, id));
+  }
+
+  function duplicateSelect(id: string, options: React.ReactNode) {
+    return (
+      <select
+        value={originals[id] ?? ""}
+        onChange={(e) => setOriginals((prev) => ({ ...prev, [id]: e.target.value }))}
+        aria-label="Duplicate of"
+        style={{ maxWidth: 260 }}
+      >
+        <option value="">Duplicate of…</option>
+        {options}
+      </select>
+    );
+  }
+
+  function actions(kind: CatalogueKind, id: string, rejectWarning: string, options: React.ReactNode) {
+    return (
+      <td style={{ ...tdStyle, whiteSpace: "nowrap", textAlign: "right" }}>
+        <button onClick={() => decide(() => approveCatalogueEntry(kind, id))} disabled={busy}>
+          Approve
+        </button>{" "}
+        <button onClick={() => reject(kind, id, rejectWarning)} disabled={busy}>
+          Reject
+        </button>
+        <div style={{ marginTop: 6 }}>
+          {duplicateSelect(id, options)}{" "}
+          <button
+            onClick={() => decide(() => mergeCatalogueEntries(kind, id, originals[id]))}
+            disabled={busy || !originals[id]}
+          >
+            Merge
+          </button>
+        </div>
+      </td>
+    );
+  }
+
+  // "Looks like …" under an entry that resembles an approved one
+  function suggestion(id: string, original: { id: string; label: string } | undefined) {
+    if (!original) return null;
+    return (
+      <div style={{ fontSize: 12, color: "#b45309", marginTop: 4 }}>
+        Looks like {original.label}{" "}
+        <button
+          onClick={() => setOriginals((prev) => ({ ...prev, [id]: original.id }))}
+          style={{ background: "none", border: 0, padding: 0, textDecoration: "underline", cursor: "pointer", fontSize: 12 }}
+        >
+          use as original
+        </button>
+      </div>
+    );
+  }
+
+  function similarName(name: string, approved: { id: string; name: string }[]) {
+    return approved
+      .map((a) => ({ id: a.id, label: a.name, score: nameSimilarity(name, a.name) }))
+      .filter((a) => a.score >= SIMILAR_NAME)
+      .sort((a, b) => b.score - a.score)[0];
+  }
+
+  function similarVariant(v: PendingVariant) {
+    const [best] = findSimilarVariants(v, variants);
+    return best ? { id: best.id, label: variantLabel(best) } : undefined;
+  }
+
+  function variantOptions(v: PendingVariant) {
+    const sameProduct = variants.filter((o) => o.product_name === v.product_name);
+    const others = variants.filter((o) => o.product_name !== v.product_name);
+    return (
+      <>
+        {sameProduct.length > 0 ? (
+          <optgroup label="Same product">
+            {sameProduct.map((o) => (
+              <option key={o.id} value={o.id}>
+                {variantLabel(o)}
+              </option>
+            ))}
+          </optgroup>
+        ) : null}
+        <optgroup label="Everything else">
+          {others.map((o) => (
+            <option key={o.id} value={o.id}>
+              {variantLabel(o)}
+            </option>
+          ))}
+        </optgroup>
+      </>
+    );
+  }
+
+  function nameOptions(entries: { id: string; name: string }[]) {
+    return entries.map((o) => (
+      <option key={o.id} value={o.id}>
+        {o.name}
+      </option>
+    ));
+  }
+
+  function nameRows(kind: "brand" | "product", entries: PendingName[], approved: { id: string; name: string }[]) {
+    return entries.map((e) => (
+      <tr key={e.id}>
+        <td style={tdStyle}>
+          <div style={{ fontWeight: 700 }}>{e.name}</div>
+          {suggestion(e.id, similarName(e.name, approved))}
+        </td>
+        <td style={{ ...tdStyle, color: "#666" }}>{daysAgo(e.created_at)}d</td>
+        {actions(kind, e.id, `Reject “${e.name}” and every pending variant filed under it?`, nameOptions(approved))}
+      </tr>
+    ));
+  }
+
+  const total = queue.brands.length + queue.products.length + queue.variants.length;
+
+  return (
+    <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", marginBottom: 6 }}>
+        <h1 style={{ fontSize: 28, fontWeight: 800 }}>Moderate Catalogue</h1>
+        <div style={{ display: "flex", gap: 14, alignItems: "baseline" }}>
+          <Link href="/moderate" style={{ textDecoration: "underline" }}>
+            Prices
+          </Link>
+          <Link href="/moderate/merge" style={{ textDecoration: "underline" }}>
+            Merge
+          </Link>
+          <Link href="/moderate/edit" style={{ textDecoration: "underline" }}>
+            Edit
+          </Link>
+          <Link href="/moderate/stores" style={{ textDecoration: "underline" }}>
+            Stores
+          </Link>
+          <Link href="/moderate/seasons" style={{ textDecoration: "underline" }}>
+            Seasons
+          </Link>
+        </div>
+      </div>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        New brands, products and variants stay off the grid, search and /add until approved. Approving a variant
+        approves its new product and brand too. Merging a duplicate moves its variants and prices to the original.
+      </div>
+
+      {status ? <div style={{ color: "crimson", marginBottom: 12 }}>{status}</div> : null}
+
+      {loading ? (
+        <div>Loading…</div>
+      ) : total === 0 ? (
+        <div>Nothing to review 🎉</div>
+      ) : (
+        <>
+          {queue.variants.length > 0 ? (
+            <>
+              <h2 style={h2Style}>Variants ({queue.variants.length})</h2>
+              <table style={tableStyle}>
+                <tbody>
+                  {queue.variants.map((v) => (
+                    <tr key={v.id}>
+                      <td style={tdStyle}>
+                        <div style={{ fontWeight: 700 }}>
+                          {variantLabel(v)}
+                          {v.new_product ? <span style={pillStyle}>NEW PRODUCT</span> : null}
+                          {v.new_brand ? <span style={pillStyle}>NEW BRAND</span> : null}
+                        </div>
+                        <div style={{ fontSize: 12, color: "#666" }}>
+                          {[
+                            ...kashrutTags(v),
+                            ...v.holidays.map(holidayLabel),
+                            v.barcode ? `Barcode ${v.barcode}` : "",
+                            v.notes ?? "",
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                        {suggestion(v.id, similarVariant(v))}
+                      </td>
+                      <td style={{ ...tdStyle, color: "#666" }}>{daysAgo(v.created_at)}d</td>
+                      {actions(
+                        "variant",
+                        v.id,
+                        `Reject “${variantLabel(v)}” and any prices still waiting on it?`,
+                        variantOptions(v)
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          ) : null}
+
+          {queue.products.length > 0 ? (
+            <>
+              <h2 style={h2Style}>Products ({queue.products.length})</h2>
+              <table style={tableStyle}>
+                <tbody>{nameRows("product", queue.products, products)}</tbody>
+              </table>
+            </>
+          ) : null}
+
+          {queue.brands.length > 0 ? (
+            <>
+              <h2 style={h2Style}>Brands ({queue.brands.length})</h2>
+              <table style={tableStyle}>
+                <tbody>{nameRows("brand", queue.brands, brands)}</tbody>
+              </table>
+            </>
+          ) : null}
+        </>
+      )}
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/moderate" style={{ textDecoration: "underline" }}>
+          Back to moderation
+        </Link>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const h2Style: React.CSSProperties = {
+  fontSize: 18,
+  fontWeight: 800,
+  margin: "18px 0 8px",
+};
+
+const tableStyle: React.CSSProperties = {
+  width: "100%",
+  borderCollapse: "collapse",
+  border: "1px solid #eee",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  verticalAlign: "top",
+};
+
+const pillStyle: React.CSSProperties = {
+  fontSize: 11,
+  border: "1px solid #ddd",
+  borderRadius: 999,
+  padding: "2px 8px",
+  marginLeft: 6,
+  fontWeight: 600,
+};
@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../../lib/supabase";
+import { getVariantForEditing, type Brand, type NewVariant, type Product } from "../../../lib/data";
+import { DIETARY_LABELS, DIETARY_TYPES, HECHSHERS, type Dietary } from "../../../lib/kashrut";
+import { HOLIDAYS } from "../../../lib/seasons";
+import { SIZE_UNITS } from "../../../lib/units";
+import { updateVariant } from "../actions";
+
+type Props = {
+  id: string;
+  products: Product[];
+  brands: Brand[];
+  onSaved: () => void;
+};
+
+// The /add-product form, filled in with a variant's current values
+export default function VariantEditor({ id, products, brands, onSaved }: Props) {
+  const [draft, setDraft] = useState<NewVariant | null>(null);
+  const [sizeValue, setSizeValue] = useState(""); // numeric text
+  const [otherHechshers, setOtherHechshers] = useState(""); // comma-separated
+
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      setDraft(null);
+      setStatus("");
+
+      try {
+        const variant = await getVariantForEditing(supabase, id);
+        if (!variant) return setStatus("Error: that variant no longer exists.");
+
+        setDraft(variant);
+        setSizeValue(variant.size_value === null ? "" : String(variant.size_value));
+        setOtherHechshers(variant.hechshers.filter((h) => !HECHSHERS.includes(h)).join(", "));
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load that variant.");
+      }
+    }
+
+    load();
+  }, [id]);
+
+  if (!draft) return status ? <div style={{ color: "crimson" }}>{status}</div> : <div>Loading…</div>;
+
+  function set(changes: Partial<NewVariant>) {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  }
+
+  function toggleHechsher(name: string, on: boolean) {
+    if (!draft) return;
+    set({ hechshers: on ? [...draft.hechshers, name] : draft.hechshers.filter((h) => h !== name) });
+  }
+
+  async function save() {
+    if (!draft) return;
+    setStatus("");
+
+    const size = sizeValue.trim() === "" ? null : Number(sizeValue);
+    const listed = draft.hechshers.filter((h) => HECHSHERS.includes(h));
+
+    setSaving(true);
+    const result = await updateVariant(id, {
+      ...draft,
+      size_value: size,
+      size_unit: size === null ? null : (draft.size_unit ?? "L"),
+      hechshers: [...listed, ...otherHechshers.split(",")],
+    });
+    setSaving(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    setStatus("Saved.");
+    onSaved();
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <label>
+          Product
+          <select value={draft.product_id} onChange={(e) => set({ product_id: e.target.value })} style={inputStyle}>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Brand
+          <select value={draft.brand_id} onChange={(e) => set({ brand_id: e.target.value })} style={inputStyle}>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Size / volume
+          <input
+            value={sizeValue}
+            onChange={(e) => setSizeValue(e.target.value)}
+            placeholder="Blank if none"
+            style={inputStyle}
+            inputMode="decimal"
+          />
+        </label>
+
+        <label>
+          Unit
+          <select value={draft.size_unit ?? "L"} onChange={(e) => set({ size_unit: e.target.value })} style={inputStyle}>
+            {SIZE_UNITS.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Flavour
+          <input value={draft.flavour ?? ""} onChange={(e) => set({ flavour: e.target.value })} style={inputStyle} />
+        </label>
+
+        <label>
+          Barcode
+          <input
+            value={draft.barcode ?? ""}
+            onChange={(e) => set({ barcode: e.target.value })}
+            inputMode="numeric"
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <label>
+        Notes
+        <input value={draft.notes ?? ""} onChange={(e) => set({ notes: e.target.value })} style={inputStyle} />
+      </label>
+
+      <fieldset style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, display: "grid", gap: 10 }}>
+        <legend style={{ fontWeight: 700, padding: "0 4px" }}>Kashrut</legend>
+
+        <div>
+          Hechsher
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 10, marginTop: 6 }}>
+            {HECHSHERS.map((h) => (
+              <label key={h} style={checkLabelStyle}>
+                <input
+                  type="checkbox"
+                  checked={draft.hechshers.includes(h)}
+                  onChange={(e) => toggleHechsher(h, e.target.checked)}
+                />
+                {h}
+              </label>
+            ))}
+          </div>
+          <input
+            value={otherHechshers}
+            onChange={(e) => setOtherHechshers(e.target.value)}
+            placeholder="Others, comma-separated"
+            style={inputStyle}
+          />
+        </div>
+
+        <label>
+          Dairy / meat / pareve
+          <select
+            value={draft.dietary ?? ""}
+            onChange={(e) => set({ dietary: (e.target.value as Dietary | "") || null })}
+            style={inputStyle}
+          >
+            <option value="">Not sure</option>
+            {DIETARY_TYPES.map((d) => (
+              <option key={d} value={d}>
+                {DIETARY_LABELS[d]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 14 }}>
+          <label style={{ ...checkLabelStyle, opacity: draft.dietary === "dairy" ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={draft.dietary === "dairy" && draft.chalav_yisrael}
+              disabled={draft.dietary !== "dairy"}
+              onChange={(e) => set({ chalav_yisrael: e.target.checked })}
+            />
+            Chalav Yisrael
+          </label>
+          <label style={checkLabelStyle}>
+            <input
+              type="checkbox"
+              checked={draft.pas_yisroel}
+              onChange={(e) => set({ pas_yisroel: e.target.checked })}
+            />
+            Pas Yisroel
+          </label>
+          <label style={checkLabelStyle}>
+            <input
+              type="checkbox"
+              checked={draft.kosher_for_passover}
+              onChange={(e) => set({ kosher_for_passover: e.target.checked })}
+            />
+            Kosher for Passover
+          </label>
+        </div>
+      </fieldset>
+
+      <div>
+        Seasonal
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10, marginTop: 6 }}>
+          {HOLIDAYS.map((h) => (
+            <label key={h.value} style={checkLabelStyle}>
+              <input
+                type="checkbox"
+                checked={draft.holidays.includes(h.value)}
+                onChange={(e) =>
+                  set({
+                    holidays: e.target.checked
+                      ? [...draft.holidays, h.value]
+                      : draft.holidays.filter((x) => x !== h.value),
+                  })
+                }
+              />
+              {h.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+        <button onClick={save} disabled={saving} style={buttonStyle}>
+          {saving ? "Saving..." : "Save changes"}
+        </button>
+        {status ? <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>{status}</div> : null}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const checkLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 800,
+  cursor: "pointer",
+};
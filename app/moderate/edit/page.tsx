@@ -0,0 +1,359 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { supabase } from "../../../lib/supabase";
+import { fieldLabel, formatChangeValue, type CatalogueEdit } from "../../../lib/catalogue";
+import { categoryLabel, categoryPaths, categoryTree, type Category } from "../../../lib/categories";
+import {
+  catalogueHistory,
+  listBrands,
+  listCatalogueVariants,
+  listCategories,
+  listProducts,
+  type Brand,
+  type CatalogueVariant,
+  type Product,
+} from "../../../lib/data";
+import type { CatalogueKind } from "../../../lib/moderation";
+import { normalizeText } from "../../../lib/search";
+import { variantLabel } from "../../../lib/variants";
+import { renameCatalogueEntry, setProductCategory, setVariantArchived } from "../actions";
+import VariantEditor from "./VariantEditor";
+
+const KINDS: { value: CatalogueKind; label: string }[] = [
+  { value: "variant", label: "Variants" },
+  { value: "product", label: "Products" },
+  { value: "brand", label: "Brands" },
+];
+
+type Entry = { id: string; label: string; archived: boolean };
+
+function when(iso: string) {
+  return new Date(iso).toLocaleString("en-CA", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function EditCataloguePage() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense>
+      <CatalogueEditor />
+    </Suspense>
+  );
+}
+
+// Linked from elsewhere as /moderate/edit?kind=variant&id=<id>
+function CatalogueEditor() {
+  const params = useSearchParams();
+  const [kind, setKind] = useState<CatalogueKind>(
+    () => KINDS.find((k) => k.value === params.get("kind"))?.value ?? "variant"
+  );
+  const [variants, setVariants] = useState<CatalogueVariant[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState(() => params.get("id") ?? "");
+  // The rename box, until typed in, shows the current name
+  const [name, setName] = useState<string | null>(null);
+  // Edits of `entryId`, so a previous entry's history is never shown
+  const [history, setHistory] = useState<{ entryId: string; edits: CatalogueEdit[] }>({ entryId: "", edits: [] });
+
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const [v, p, b, c] = await Promise.all([
+          listCatalogueVariants(supabase),
+          listProducts(supabase),
+          listBrands(supabase),
+          listCategories(supabase),
+        ]);
+        setVariants(v);
+        setProducts(p);
+        setBrands(b);
+        setCategories(c);
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load the catalogue.");
+      }
+    }
+
+    load();
+  }, [reloadKey]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    catalogueHistory(supabase, selectedId)
+      .then((edits) => setHistory({ entryId: selectedId, edits }))
+      .catch((e) => {
+        console.error(e);
+        setStatus("Error: could not load the history.");
+      });
+  }, [selectedId, reloadKey]);
+
+  const entries: Entry[] = useMemo(() => {
+    if (kind === "variant") {
+      return variants.map((v) => ({ id: v.id, label: variantLabel(v), archived: v.archived_at !== null }));
+    }
+    return (kind === "product" ? products : brands).map((e) => ({ id: e.id, label: e.name, archived: false }));
+  }, [kind, variants, products, brands]);
+
+  const shown = useMemo(() => {
+    const q = normalizeText(query);
+    return q ? entries.filter((e) => normalizeText(e.label).includes(q)) : entries;
+  }, [entries, query]);
+
+  const selected = entries.find((e) => e.id === selectedId);
+  const edits = history.entryId === selectedId ? history.edits : [];
+
+  // Product, brand and category ids in the history read as names
+  const names = useMemo(() => {
+    const paths = categoryPaths(categories);
+    return new Map([
+      ...[...products, ...brands].map((e): [string, string] => [e.id, e.name]),
+      ...categories.map((c): [string, string] => [c.id, categoryLabel(paths, c.id)]),
+    ]);
+  }, [products, brands, categories]);
+  const product = kind === "product" ? products.find((p) => p.id === selectedId) : undefined;
+
+  function changeKind(next: CatalogueKind) {
+    setKind(next);
+    setSelectedId("");
+    setName(null);
+    setStatus("");
+  }
+
+  function select(entry: Entry) {
+    setSelectedId(entry.id);
+    setName(null);
+    setStatus("");
+  }
+
+  async function run(action: () => Promise<{ error: string | null }>, done: string) {
+    setStatus("");
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    setStatus(done);
+    setReloadKey((k) => k + 1);
+  }
+
+  function toggleArchived(entry: Entry) {
+    const archive = !entry.archived;
+    if (archive && !window.confirm(`Archive “${entry.label}”? It leaves the grid and /add; its prices stay.`)) return;
+    run(() => setVariantArchived(entry.id, archive), archive ? "Archived." : "Back in the catalogue.");
+  }
+
+  return (
+    <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", marginBottom: 6 }}>
+        <h1 style={{ fontSize: 28, fontWeight: 800 }}>Edit catalogue</h1>
+        <div style={{ display: "flex", gap: 14, alignItems: "baseline" }}>
+          <Link href="/moderate" style={{ textDecoration: "underline" }}>
+            Prices
+          </Link>
+          <Link href="/moderate/catalogue" style={{ textDecoration: "underline" }}>
+            Catalogue
+          </Link>
+          <Link href="/moderate/merge" style={{ textDecoration: "underline" }}>
+            Merge
+          </Link>
+        </div>
+      </div>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        Fix typos and wrong details on approved entries; every change is kept in the entry’s history. Archive a variant
+        that’s no longer sold: it leaves the grid and /add, but its page and price history stay.
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+        {KINDS.map((k) => (
+          <button
+            key={k.value}
+            onClick={() => changeKind(k.value)}
+            style={{ ...tabStyle, background: kind === k.value ? "#111" : "#fff", color: kind === k.value ? "#fff" : "#111" }}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "minmax(260px, 1fr) 2fr", gap: 20, alignItems: "start" }}>
+        <div>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search…"
+            style={{ width: "100%", padding: 8, marginBottom: 8 }}
+          />
+          <div style={{ maxHeight: 560, overflowY: "auto", border: "1px solid #eee", borderRadius: 8 }}>
+            {shown.map((e) => (
+              <button
+                key={e.id}
+                onClick={() => select(e)}
+                style={{ ...rowStyle, background: e.id === selectedId ? "#f3f4f6" : "#fff", color: e.archived ? "#999" : "#111" }}
+              >
+                {e.label}
+                {e.archived ? <span style={pillStyle}>ARCHIVED</span> : null}
+              </button>
+            ))}
+            {shown.length === 0 ? <div style={{ padding: 10, color: "#666" }}>Nothing matches.</div> : null}
+          </div>
+        </div>
+
+        <div>
+          {status ? (
+            <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534", marginBottom: 12 }}>{status}</div>
+          ) : null}
+
+          {!selected ? (
+            <div style={{ color: "#666" }}>Pick an entry to edit.</div>
+          ) : (
+            <>
+              <h2 style={{ ...h2Style, marginTop: 0 }}>
+                {selected.label}
+                {selected.archived ? <span style={pillStyle}>ARCHIVED</span> : null}
+              </h2>
+
+              {kind === "variant" ? (
+                <>
+                  <div style={{ display: "flex", gap: 14, marginBottom: 12, alignItems: "baseline" }}>
+                    <button onClick={() => toggleArchived(selected)} disabled={busy}>
+                      {selected.archived ? "Unarchive" : "Archive (no longer sold)"}
+                    </button>
+                    <Link href={`/variant/${selected.id}`} style={{ textDecoration: "underline" }}>
+                      Price history
+                    </Link>
+                  </div>
+                  <VariantEditor
+                    id={selected.id}
+                    products={products}
+                    brands={brands}
+                    onSaved={() => setReloadKey((k) => k + 1)}
+                  />
+                </>
+              ) : (
+                <div style={{ display: "flex", gap: 8 }}>
+                  <input
+                    value={name ?? selected.label}
+                    onChange={(e) => setName(e.target.value)}
+                    aria-label="Name"
+                    style={{ flex: 1, padding: 8 }}
+                  />
+                  <button
+                    onClick={() => run(() => renameCatalogueEntry(kind, selected.id, name ?? ""), "Renamed.")}
+                    disabled={busy || name === null || name === selected.label}
+                  >
+                    Rename
+                  </button>
+                </div>
+              )}
+
+              {product ? (
+                <label style={{ display: "block", marginTop: 12 }}>
+                  Category
+                  <select
+                    value={product.category_id ?? ""}
+                    onChange={(e) =>
+                      run(() => setProductCategory(product.id, e.target.value || null), "Category changed.")
+                    }
+                    disabled={busy}
+                    style={{ display: "block", width: "100%", padding: 8, marginTop: 4 }}
+                  >
+                    <option value="">None (listed under Other)</option>
+                    {categoryTree(categories).map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>
+                        {"\u00a0\u00a0\u00a0".repeat(depth)}
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+
+              <h2 style={h2Style}>History</h2>
+              {edits.length === 0 ? (
+                <div style={{ color: "#666" }}>No edits yet.</div>
+              ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse", border: "1px solid #eee" }}>
+                  <tbody>
+                    {edits.map((edit) => (
+                      <tr key={edit.id}>
+                        <td style={{ ...tdStyle, color: "#666", fontSize: 12, whiteSpace: "nowrap" }}>
+                          {when(edit.edited_at)}
+                        </td>
+                        <td style={tdStyle}>
+                          {Object.entries(edit.changes).map(([column, { from, to }]) => (
+                            <div key={column}>
+                              <b>{fieldLabel(column)}</b>: {formatChangeValue(from, names)} → {formatChangeValue(to, names)}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/moderate" style={{ textDecoration: "underline" }}>
+          Back to moderation
+        </Link>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const h2Style: React.CSSProperties = {
+  fontSize: 18,
+  fontWeight: 800,
+  margin: "22px 0 8px",
+};
+
+const tabStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  fontWeight: 600,
+  cursor: "pointer",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  textAlign: "left",
+  padding: "8px 10px",
+  border: 0,
+  borderBottom: "1px solid #f2f2f2",
+  cursor: "pointer",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  verticalAlign: "top",
+};
+
+const pillStyle: React.CSSProperties = {
+  fontSize: 11,
+  border: "1px solid #ddd",
+  borderRadius: 999,
+  padding: "2px 8px",
+  marginLeft: 6,
+  fontWeight: 600,
+};
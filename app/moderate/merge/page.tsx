@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "../../../lib/supabase";
+import {
+  listBrands,
+  listMerges,
+  listProducts,
+  listVariants,
+  type Brand,
+  type CatalogueMerge,
+  type Product,
+} from "../../../lib/data";
+import { findDuplicateNames, findDuplicateVariants, type DuplicatePair } from "../../../lib/duplicates";
+import type { CatalogueKind } from "../../../lib/moderation";
+import { variantLabel, type Variant } from "../../../lib/variants";
+import { mergeCatalogueEntries } from "../actions";
+
+const LOG_SIZE = 50;
+
+const KINDS: { value: CatalogueKind; label: string }[] = [
+  { value: "variant", label: "Variants" },
+  { value: "product", label: "Products" },
+  { value: "brand", label: "Brands" },
+];
+
+type Entry = { id: string; label: string };
+
+function toEntry(e: { id: string; name: string }): Entry {
+  return { id: e.id, label: e.name };
+}
+
+function when(iso: string) {
+  return new Date(iso).toLocaleString("en-CA", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function MergePage() {
+  const [kind, setKind] = useState<CatalogueKind>("variant");
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [merges, setMerges] = useState<CatalogueMerge[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Merge by hand
+  const [fromId, setFromId] = useState("");
+  const [intoId, setIntoId] = useState("");
+
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const [v, p, b, m] = await Promise.all([
+          listVariants(supabase),
+          listProducts(supabase),
+          listBrands(supabase),
+          listMerges(supabase, LOG_SIZE),
+        ]);
+        setVariants(v);
+        setProducts(p);
+        setBrands(b);
+        setMerges(m);
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load the catalogue.");
+      }
+    }
+
+    load();
+  }, [reloadKey]);
+
+  const entries: Entry[] = useMemo(() => {
+    if (kind === "variant") return variants.map((v) => ({ id: v.id, label: variantLabel(v) }));
+    return (kind === "product" ? products : brands).map(toEntry);
+  }, [kind, variants, products, brands]);
+
+  const pairs: DuplicatePair<Entry>[] = useMemo(() => {
+    if (kind === "variant") {
+      return findDuplicateVariants(variants).map(({ a, b, score }) => ({
+        a: { id: a.id, label: variantLabel(a) },
+        b: { id: b.id, label: variantLabel(b) },
+        score,
+      }));
+    }
+    return findDuplicateNames(kind === "product" ? products : brands).map(({ a, b, score }) => ({
+      a: toEntry(a),
+      b: toEntry(b),
+      score,
+    }));
+  }, [kind, variants, products, brands]);
+
+  function changeKind(next: CatalogueKind) {
+    setKind(next);
+    setFromId("");
+    setIntoId("");
+    setStatus("");
+  }
+
+  async function merge(from: Entry, into: Entry) {
+    const moves =
+      kind === "variant" ? "Its prices and watches move across." : "Its variants and their prices move across.";
+    if (!window.confirm(`Merge “${from.label}” into “${into.label}”? ${moves}`)) return;
+
+    setStatus("");
+    setBusy(true);
+    const result = await mergeCatalogueEntries(kind, from.id, into.id);
+    setBusy(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    setStatus(`Merged “${from.label}” into “${into.label}”.`);
+    setFromId("");
+    setIntoId("");
+    setReloadKey((k) => k + 1);
+  }
+
+  const fromEntry = entries.find((e) => e.id === fromId);
+  const intoEntry = entries.find((e) => e.id === intoId);
+
+  return (
+    <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
+      <h1 style={{ fontSize: 28, fontWeight: 800, marginBottom: 6 }}>Merge duplicates</h1>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        The same item entered twice splits its price history. Merging keeps one entry and moves everything filed under
+        the other to it; the merged entry is hidden, and later lookups of its name land on the one you kept.
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+        {KINDS.map((k) => (
+          <button
+            key={k.value}
+            onClick={() => changeKind(k.value)}
+            style={{ ...tabStyle, background: kind === k.value ? "#111" : "#fff", color: kind === k.value ? "#fff" : "#111" }}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      {status ? (
+        <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534", marginBottom: 12 }}>{status}</div>
+      ) : null}
+
+      <h2 style={h2Style}>Possible duplicates ({pairs.length})</h2>
+      {pairs.length === 0 ? (
+        <div style={{ color: "#666" }}>Nothing looks duplicated.</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", border: "1px solid #eee" }}>
+          <tbody>
+            {pairs.map(({ a, b, score }) => (
+              <tr key={`${a.id}-${b.id}`}>
+                <td style={tdStyle}>{a.label}</td>
+                <td style={tdStyle}>{b.label}</td>
+                <td style={{ ...tdStyle, color: "#666", fontSize: 12 }}>{Math.round(score * 100)}% alike</td>
+                <td style={{ ...tdStyle, whiteSpace: "nowrap", textAlign: "right" }}>
+                  <button onClick={() => merge(b, a)} disabled={busy}>
+                    Keep left
+                  </button>{" "}
+                  <button onClick={() => merge(a, b)} disabled={busy}>
+                    Keep right
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h2 style={h2Style}>Merge by hand</h2>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <select value={fromId} onChange={(e) => setFromId(e.target.value)} aria-label="Duplicate" style={selectStyle}>
+          <option value="">Duplicate…</option>
+          {entries.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.label}
+            </option>
+          ))}
+        </select>
+        into
+        <select value={intoId} onChange={(e) => setIntoId(e.target.value)} aria-label="Keep" style={selectStyle}>
+          <option value="">Entry to keep…</option>
+          {entries
+            .filter((e) => e.id !== fromId)
+            .map((e) => (
+              <option key={e.id} value={e.id}>
+                {e.label}
+              </option>
+            ))}
+        </select>
+        <button onClick={() => fromEntry && intoEntry && merge(fromEntry, intoEntry)} disabled={busy || !fromEntry || !intoEntry}>
+          Merge
+        </button>
+      </div>
+
+      <h2 style={h2Style}>Recent merges</h2>
+      {merges.length === 0 ? (
+        <div style={{ color: "#666" }}>No merges yet.</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", border: "1px solid #eee" }}>
+          <tbody>
+            {merges.map((m) => (
+              <tr key={m.id}>
+                <td style={{ ...tdStyle, color: "#666", fontSize: 12, whiteSpace: "nowrap" }}>{when(m.merged_at)}</td>
+                <td style={{ ...tdStyle, fontSize: 12 }}>{m.kind}</td>
+                <td style={tdStyle}>
+                  {m.from_label} → <b>{m.into_label}</b>
+                </td>
+                <td style={{ ...tdStyle, color: "#666", fontSize: 12 }}>
+                  {[
+                    m.moved_variants ? `${m.moved_variants} variant${m.moved_variants === 1 ? "" : "s"}` : "",
+                    `${m.moved_submissions} price${m.moved_submissions === 1 ? "" : "s"} moved`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/moderate/catalogue" style={{ textDecoration: "underline" }}>
+          Catalogue queue
+        </Link>
+        <Link href="/moderate/edit" style={{ textDecoration: "underline" }}>
+          Edit catalogue
+        </Link>
+        <Link href="/moderate" style={{ textDecoration: "underline" }}>
+          Back to moderation
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const h2Style: React.CSSProperties = {
+  fontSize: 18,
+  fontWeight: 800,
+  margin: "22px 0 8px",
+};
+
+const tabStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  fontWeight: 600,
+  cursor: "pointer",
+};
+
+const selectStyle: React.CSSProperties = {
+  maxWidth: 360,
+  padding: 6,
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  verticalAlign: "top",
+};
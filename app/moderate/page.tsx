@@ -1,98 +1,357 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabase";
+import { listStores, pendingSubmissions, type PendingSubmission } from "../../lib/data";
+import { daysAgo, money } from "../../lib/format";
+import { REJECTION_REASONS } from "../../lib/moderation";
+import type { PriceType, Store } from "../../lib/prices";
+import { approveSubmissions, editAndApproveSubmission, rejectSubmissions } from "./actions";
 
-type PendingSubmission = {
-  id: string;
-  created_at: string;
-  price_cents: number;
-  price_type: "regular" | "sale";
-  store_name: string;
-  product_label: string;
+const PAGE_SIZE = 100;
+
+const AGE_FILTERS = [
+  { value: "", label: "Any age" },
+  { value: "1d", label: "Last 24 hours", newerThanDays: 1 },
+  { value: "7d", label: "Last 7 days", newerThanDays: 7 },
+  { value: "old7", label: "Older than 7 days", olderThanDays: 7 },
+  { value: "old30", label: "Older than 30 days", olderThanDays: 30 },
+] as const;
+
+type Filters = {
+  storeId: string;
+  priceType: "" | PriceType;
+  submitterId: string;
+  age: (typeof AGE_FILTERS)[number]["value"];
+  flaggedOnly: boolean;
+  oldestFirst: boolean;
 };
 
+const NO_FILTERS: Filters = {
+  storeId: "",
+  priceType: "",
+  submitterId: "",
+  age: "",
+  flaggedOnly: false,
+  oldestFirst: false,
+};
+
+// Rows another moderator decided on meanwhile keep that decision; they still
+// leave this queue.
+function warnAlreadyReviewed(skipped: number) {
+  if (skipped > 0) {
+    const what = skipped === 1 ? "price was" : "prices were";
+    alert(`${skipped} ${what} already reviewed by another moderator and left as they were.`);
+  }
+}
+
 export default function ModeratePage() {
   const [items, setItems] = useState<PendingSubmission[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const router = useRouter();
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [page, setPage] = useState(1);
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [cursor, setCursor] = useState(0);
+  const [bulkReason, setBulkReason] = useState("");
+  const [rejectReasons, setRejectReasons] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<{
+    id: string;
+    price: string;
+    type: PriceType;
+    saleEnd: string;
+  } | null>(null);
+
+  const rowRefs = useRef<Record<string, HTMLTableRowElement | null>>({});
+
+  useEffect(() => {
+    async function loadStores() {
+      try {
+        setStores(await listStores(supabase, { includeInactive: true }));
+      } catch (e) {
+        console.error(e);
+      }
+    }
+    loadStores();
+  }, []);
 
   useEffect(() => {
     async function load() {
-      const { data, error } = await supabase
-        .from("price_submissions")
-        .select(`
-          id,
-          created_at,
-          price_cents,
-          price_type,
-          stores(name),
-          product_variants(
-            size_value,
-            size_unit,
-            flavour,
-            products(name),
-            brands(name)
-          )
-        `)
-        .eq("is_approved", false)
-        .order("created_at", { ascending: false })
-        .limit(100);
-
-      if (error) {
-        console.error(error);
+      setLoading(true);
+
+      const age = AGE_FILTERS.find((a) => a.value === filters.age);
+
+      try {
+        const { items, total } = await pendingSubmissions(
+          supabase,
+          {
+            storeId: filters.storeId || undefined,
+            priceType: filters.priceType || undefined,
+            submitterId: filters.submitterId || undefined,
+            newerThanDays: age && "newerThanDays" in age ? age.newerThanDays : undefined,
+            olderThanDays: age && "olderThanDays" in age ? age.olderThanDays : undefined,
+            flaggedOnly: filters.flaggedOnly,
+            oldestFirst: filters.oldestFirst,
+          },
+          page,
+          PAGE_SIZE
+        );
+        setItems(items);
+        setTotal(total);
+      } catch (e) {
+        console.error(e);
         setLoading(false);
         return;
       }
 
-      const mapped: PendingSubmission[] = (data ?? []).map((r: any) => {
-        const size =
-          r.product_variants?.size_value && r.product_variants?.size_unit
-            ? ` — ${r.product_variants.size_value}${r.product_variants.size_unit}`
-            : "";
-        const flavour = r.product_variants?.flavour
-          ? ` — ${r.product_variants.flavour}`
-          : "";
-
-        return {
-          id: r.id,
-          created_at: r.created_at,
-          price_cents: r.price_cents,
-          price_type: r.price_type,
-          store_name: r.stores?.name ?? "",
-          product_label: `${r.product_variants?.brands?.name ?? ""} — ${
-            r.product_variants?.products?.name ?? ""
-          }${size}${flavour}`,
-        };
-      });
-
-      setItems(mapped);
+      setSelected(new Set());
+      setCursor(0);
       setLoading(false);
     }
 
     load();
-  }, []);
+  }, [filters, page, reloadKey]);
+
+  function updateFilters(patch: Partial<Filters>) {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPage(1);
+  }
+
+  // Only drop rows from the UI once the DB update succeeded
+  const removeItems = useCallback(
+    (ids: string[]) => {
+      const gone = new Set(ids);
+      const next = items.filter((x) => !gone.has(x.id));
+
+      setItems(next);
+      setTotal((t) => Math.max(0, t - gone.size));
+      setSelected((prev) => new Set([...prev].filter((id) => !gone.has(id))));
+      setCursor((c) => Math.min(c, Math.max(0, next.length - 1)));
+
+      // Page emptied out: fetch the next batch that slid into place
+      if (next.length === 0) setReloadKey((k) => k + 1);
+    },
+    [items]
+  );
+
+  const approve = useCallback(
+    async (ids: string[]) => {
+      const result = await approveSubmissions(ids);
+      if (result.error !== null) {
+        alert("Approve failed: " + result.error);
+        return;
+      }
+      warnAlreadyReviewed(ids.length - result.updated);
+      removeItems(ids);
+    },
+    [removeItems]
+  );
 
-  async function approve(id: string) {
-  const { error } = await supabase
-    .from("price_submissions")
-    .update({ is_approved: true })
-    .eq("id", id);
+  const reject = useCallback(
+    async (ids: string[], reason: string) => {
+      if (!reason) {
+        alert("Pick a reason first.");
+        return;
+      }
 
-  if (error) {
-    alert("Approve failed: " + error.message);
-    return;
+      const result = await rejectSubmissions(ids, reason);
+      if (result.error !== null) {
+        alert("Reject failed: " + result.error);
+        return;
+      }
+      warnAlreadyReviewed(ids.length - result.updated);
+      removeItems(ids);
+    },
+    [removeItems]
+  );
+
+  function startEdit(i: PendingSubmission) {
+    setEditing({
+      id: i.id,
+      price: (i.price_cents / 100).toFixed(2),
+      type: i.price_type,
+      saleEnd: i.sale_end_date ?? "",
+    });
   }
 
-  // only remove from UI if DB update succeeded
-setItems((prev) => prev.filter((x) => x.id !== id));
-}
+  async function saveEditAndApprove() {
+    if (!editing) return;
+
+    const dollars = Number(editing.price);
+    if (!Number.isFinite(dollars) || dollars <= 0) {
+      alert("Enter a valid price like 12.99");
+      return;
+    }
+
+    const { error } = await editAndApproveSubmission(editing.id, {
+      price_cents: Math.round(dollars * 100),
+      price_type: editing.type,
+      sale_end_date: editing.type === "sale" && editing.saleEnd ? editing.saleEnd : null,
+    });
+    if (error) {
+      alert("Save failed: " + error);
+      return;
+    }
+
+    removeItems([editing.id]);
+    setEditing(null);
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  // Keyboard shortcuts: j/k move, x select, a approve, r reject, e edit.
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (editing || e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+
+      const current = items[Math.min(cursor, items.length - 1)];
+
+      if (e.key === "j") setCursor((c) => Math.min(items.length - 1, c + 1));
+      else if (e.key === "k") setCursor((c) => Math.max(0, c - 1));
+      else if (!current) return;
+      else if (e.key === "x") toggleSelected(current.id);
+      else if (e.key === "a") approve([current.id]);
+      else if (e.key === "r") reject([current.id], rejectReasons[current.id] || bulkReason);
+      else if (e.key === "e") startEdit(current);
+      else return;
+
+      e.preventDefault();
+    }
 
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [items, cursor, editing, rejectReasons, bulkReason, approve, reject]);
+
+  useEffect(() => {
+    const current = items[cursor];
+    if (current) rowRefs.current[current.id]?.scrollIntoView({ block: "nearest" });
+  }, [cursor, items]);
+
+  async function signOut() {
+    await supabase.auth.signOut();
+    router.replace("/");
+    router.refresh();
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allSelected = items.length > 0 && items.every((i) => selected.has(i.id));
 
   return (
-    <main style={{ padding: 24, maxWidth: 900, margin: "0 auto" }}>
-      <h1 style={{ fontSize: 28, fontWeight: 800, marginBottom: 12 }}>
-        Moderate Prices
-      </h1>
+    <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", marginBottom: 12 }}>
+        <h1 style={{ fontSize: 28, fontWeight: 800 }}>
+          Moderate Prices
+        </h1>
+        <div style={{ display: "flex", gap: 14, alignItems: "baseline" }}>
+          <Link href="/moderate/catalogue" style={{ textDecoration: "underline" }}>
+            Catalogue
+          </Link>
+          <Link href="/moderate/merge" style={{ textDecoration: "underline" }}>
+            Merge
+          </Link>
+          <Link href="/moderate/edit" style={{ textDecoration: "underline" }}>
+            Edit
+          </Link>
+          <Link href="/moderate/stores" style={{ textDecoration: "underline" }}>
+            Stores
+          </Link>
+          <Link href="/moderate/seasons" style={{ textDecoration: "underline" }}>
+            Seasons
+          </Link>
+          <button onClick={signOut} style={{ textDecoration: "underline", background: "none", border: 0, cursor: "pointer" }}>
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 10 }}>
+        <select value={filters.storeId} onChange={(e) => updateFilters({ storeId: e.target.value })}>
+          <option value="">All stores</option>
+          {stores.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.priceType}
+          onChange={(e) => updateFilters({ priceType: e.target.value as Filters["priceType"] })}
+        >
+          <option value="">Regular + sale</option>
+          <option value="regular">Regular only</option>
+          <option value="sale">Sale only</option>
+        </select>
+
+        <select value={filters.age} onChange={(e) => updateFilters({ age: e.target.value as Filters["age"] })}>
+          {AGE_FILTERS.map((a) => (
+            <option key={a.value} value={a.value}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+
+        <label>
+          <input
+            type="checkbox"
+            checked={filters.flaggedOnly}
+            onChange={(e) => updateFilters({ flaggedOnly: e.target.checked })}
+          />{" "}
+          Flagged only
+        </label>
+
+        <label>
+          <input
+            type="checkbox"
+            checked={filters.oldestFirst}
+            onChange={(e) => updateFilters({ oldestFirst: e.target.checked })}
+          />{" "}
+          Oldest first
+        </label>
+
+        {filters.submitterId ? (
+          <button onClick={() => updateFilters({ submitterId: "" })}>
+            Submitter {filters.submitterId.slice(0, 8)} ✕
+          </button>
+        ) : null}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 10 }}>
+        <span>{selected.size} selected</span>
+        <button onClick={() => approve([...selected])} disabled={selected.size === 0}>
+          Approve selected
+        </button>
+        <select value={bulkReason} onChange={(e) => setBulkReason(e.target.value)}>
+          <option value="">Reason…</option>
+          {REJECTION_REASONS.map((r) => (
+            <option key={r.value} value={r.value}>
+              {r.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => reject([...selected], bulkReason)} disabled={selected.size === 0 || !bulkReason}>
+          Reject selected
+        </button>
+        <span style={{ fontSize: 12, color: "#777" }}>
+          Keys: j/k move · x select · a approve · r reject · e edit
+        </span>
+      </div>
 
       {loading ? (
         <div>Loading…</div>
@@ -102,34 +361,158 @@ setItems((prev) => prev.filter((x) => x.id !== id));
         <table style={{ width: "100%", borderCollapse: "collapse" }}>
           <thead>
             <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(items.map((i) => i.id)))}
+                  aria-label="Select all on this page"
+                />
+              </th>
               <th align="left">Product</th>
               <th align="left">Store</th>
+              <th align="left">Submitter</th>
+              <th align="left">Age</th>
               <th align="right">Price</th>
               <th />
             </tr>
           </thead>
           <tbody>
-            {items.map((i) => (
-              <tr key={i.id} style={{ borderTop: "1px solid #eee" }}>
-                <td>{i.product_label}</td>
-                <td>{i.store_name}</td>
-                <td align="right">
-                  ${(i.price_cents / 100).toFixed(2)}{" "}
-                  {i.price_type === "sale" ? "(sale)" : ""}
-                </td>
-                <td>
-                  <button onClick={() => approve(i.id)}>Approve</button>
-                </td>
-              </tr>
-            ))}
+            {items.map((i, index) =>
+              editing?.id === i.id ? (
+                <tr key={i.id} style={{ borderTop: "1px solid #eee", background: "#fafafa" }}>
+                  <td />
+                  <td>{i.product_label}</td>
+                  <td>{i.store_name}</td>
+                  <td />
+                  <td />
+                  <td align="right">
+                    <input
+                      value={editing.price}
+                      onChange={(e) => setEditing({ ...editing, price: e.target.value })}
+                      inputMode="decimal"
+                      style={{ width: 80 }}
+                      autoFocus
+                    />{" "}
+                    <select
+                      value={editing.type}
+                      onChange={(e) => setEditing({ ...editing, type: e.target.value as PriceType })}
+                    >
+                      <option value="regular">Regular</option>
+                      <option value="sale">Sale</option>
+                    </select>
+                    {editing.type === "sale" ? (
+                      <input
+                        type="date"
+                        value={editing.saleEnd}
+                        onChange={(e) => setEditing({ ...editing, saleEnd: e.target.value })}
+                        style={{ display: "block", marginTop: 4, marginLeft: "auto" }}
+                      />
+                    ) : null}
+                  </td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    <button onClick={saveEditAndApprove}>Save &amp; approve</button>{" "}
+                    <button onClick={() => setEditing(null)}>Cancel</button>
+                  </td>
+                </tr>
+              ) : (
+                <tr
+                  key={i.id}
+                  ref={(el) => {
+                    rowRefs.current[i.id] = el;
+                  }}
+                  onClick={() => setCursor(index)}
+                  style={{
+                    borderTop: "1px solid #eee",
+                    background: index === cursor ? "#eef2ff" : undefined,
+                  }}
+                >
+                  <td align="center">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(i.id)}
+                      onChange={() => toggleSelected(i.id)}
+                    />
+                  </td>
+                  <td>
+                    {i.product_label}
+                    {i.variant_pending ? (
+                      <Link
+                        href="/moderate/catalogue"
+                        title="This product is new and waiting for review"
+                        style={{ marginLeft: 6, fontSize: 11, color: "#b45309" }}
+                      >
+                        NEW PRODUCT
+                      </Link>
+                    ) : null}
+                    {i.outlier_flags?.map((f) => (
+                      <div key={f} style={{ fontSize: 12, color: "crimson" }}>
+                        ⚠ {f}
+                      </div>
+                    ))}
+                  </td>
+                  <td>{i.store_name}</td>
+                  <td>
+                    {i.submitter_id ? (
+                      <button
+                        onClick={() => updateFilters({ submitterId: i.submitter_id! })}
+                        title="Show only this submitter"
+                        style={{ background: "none", border: 0, padding: 0, textDecoration: "underline", cursor: "pointer", fontFamily: "monospace" }}
+                      >
+                        {i.submitter_id.slice(0, 8)}
+                      </button>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td>{daysAgo(i.created_at)}d</td>
+                  <td align="right">
+                    {money(i.price_cents)}{" "}
+                    {i.price_type === "sale" ? "(sale)" : ""}
+                  </td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    <button onClick={() => approve([i.id])}>Approve</button>{" "}
+                    <button onClick={() => startEdit(i)}>Edit</button>{" "}
+                    <select
+                      value={rejectReasons[i.id] ?? ""}
+                      onChange={(e) => setRejectReasons((prev) => ({ ...prev, [i.id]: e.target.value }))}
+                    >
+                      <option value="">Reason…</option>
+                      {REJECTION_REASONS.map((r) => (
+                        <option key={r.value} value={r.value}>
+                          {r.label}
+                        </option>
+                      ))}
+                    </select>{" "}
+                    <button onClick={() => reject([i.id], rejectReasons[i.id])} disabled={!rejectReasons[i.id]}>
+                      Reject
+                    </button>
+                  </td>
+                </tr>
+              )
+            )}
           </tbody>
         </table>
       )}
 
+      {total > PAGE_SIZE ? (
+        <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 12 }}>
+          <button onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1}>
+            Previous
+          </button>
+          <span>
+            Page {page} of {pageCount} ({total} pending)
+          </span>
+          <button onClick={() => setPage((p) => Math.min(pageCount, p + 1))} disabled={page >= pageCount}>
+            Next
+          </button>
+        </div>
+      ) : null}
+
       <div style={{ marginTop: 20 }}>
-        <a href="/" style={{ textDecoration: "underline" }}>
+        <Link href="/" style={{ textDecoration: "underline" }}>
           Back to homepage
-        </a>
+        </Link>
       </div>
     </main>
   );
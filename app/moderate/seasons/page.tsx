@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "../../../lib/supabase";
+import { listSeasons } from "../../../lib/data";
+import { formatSeasonDates, HOLIDAYS, holidayLabel, type Holiday, type Season } from "../../../lib/seasons";
+import { createSeason, deleteSeason } from "../actions";
+
+export default function SeasonsPage() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [name, setName] = useState("");
+  const [holiday, setHoliday] = useState<Holiday>("pesach");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    listSeasons(supabase).then(setSeasons, (e) => {
+      console.error(e);
+      setStatus("Error: could not load seasons.");
+    });
+  }, [reloadKey]);
+
+  async function create() {
+    setStatus("");
+    setSaving(true);
+    const result = await createSeason({ name, holiday, starts_on: startsOn, ends_on: endsOn });
+    setSaving(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+
+    setStatus(`Added ${name.trim()}.`);
+    setName("");
+    setStartsOn("");
+    setEndsOn("");
+    setReloadKey((k) => k + 1);
+  }
+
+  async function remove(season: Season) {
+    if (!window.confirm(`Delete ${season.name}? Its prices are kept.`)) return;
+
+    setStatus("");
+    const result = await deleteSeason(season.id);
+    if (result.error) return setStatus("Error: " + result.error);
+
+    setReloadKey((k) => k + 1);
+  }
+
+  return (
+    <main style={{ padding: 24, maxWidth: 900, margin: "0 auto" }}>
+      <h1 style={{ fontSize: 28, fontWeight: 800, marginBottom: 6 }}>Seasons</h1>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        A season is a holiday’s shopping window, e.g. Pesach 2027 from the first Pesach flyers to the end of Yom Tov.
+        Home’s season view shows that holiday’s items with prices from the window, compared with the previous season
+        of the same holiday.
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: 20 }}>
+        <thead>
+          <tr>
+            <th style={thStyle}>Season</th>
+            <th style={thStyle}>Holiday</th>
+            <th style={thStyle}>Dates</th>
+            <th style={thStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {seasons.map((s) => (
+            <tr key={s.id}>
+              <td style={{ ...tdStyle, fontWeight: 600 }}>{s.name}</td>
+              <td style={tdStyle}>{holidayLabel(s.holiday)}</td>
+              <td style={tdStyle}>{formatSeasonDates(s)}</td>
+              <td style={{ ...tdStyle, textAlign: "right" }}>
+                <button onClick={() => remove(s)} style={{ background: "none", border: 0, color: "crimson", cursor: "pointer" }}>
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+          {seasons.length === 0 ? (
+            <tr>
+              <td colSpan={4} style={{ ...tdStyle, color: "#888" }}>
+                No seasons yet.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+
+      <div style={{ display: "grid", gap: 12, maxWidth: 520 }}>
+        <div style={{ fontWeight: 800 }}>Add a season</div>
+
+        <label>
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Pesach 2027" style={inputStyle} />
+        </label>
+
+        <label>
+          Holiday
+          <select value={holiday} onChange={(e) => setHoliday(e.target.value as Holiday)} style={inputStyle}>
+            {HOLIDAYS.map((h) => (
+              <option key={h.value} value={h.value}>
+                {h.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+          <label>
+            Shopping starts
+            <input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} style={inputStyle} />
+          </label>
+          <label>
+            Ends
+            <input type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} style={inputStyle} />
+          </label>
+        </div>
+
+        <button onClick={create} disabled={saving} style={buttonStyle}>
+          {saving ? "Saving..." : "Add season"}
+        </button>
+
+        {status ? <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>{status}</div> : null}
+      </div>
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/moderate" style={{ textDecoration: "underline" }}>
+          Back to moderation
+        </Link>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 800,
+  cursor: "pointer",
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 10,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+};
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { DAY_LABELS, DAYS, type Day, type StoreInput, type WeeklyHours } from "../../../lib/stores";
+import { saveStore } from "../actions";
+
+export const EMPTY_STORE: StoreInput = {
+  name: "",
+  address: null,
+  neighbourhood: null,
+  website: null,
+  hours: {},
+  closed_shabbos: false,
+  closed_yom_tov: false,
+  hours_note: null,
+  latitude: null,
+  longitude: null,
+};
+
+type DayState = "unknown" | "closed" | "open";
+
+function dayState(hours: WeeklyHours, day: Day): DayState {
+  const h = hours[day];
+  if (h === undefined) return "unknown";
+  return h === null ? "closed" : "open";
+}
+
+type Props = {
+  // null to create a new store
+  storeId: string | null;
+  initial: StoreInput;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+export default function StoreForm({ storeId, initial, onSaved, onCancel }: Props) {
+  const [store, setStore] = useState<StoreInput>(initial);
+  const [lat, setLat] = useState(initial.latitude?.toString() ?? "");
+  const [lng, setLng] = useState(initial.longitude?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  function update(patch: Partial<StoreInput>) {
+    setStore((prev) => ({ ...prev, ...patch }));
+  }
+
+  function setDay(day: Day, state: DayState) {
+    const hours = { ...store.hours };
+    if (state === "unknown") delete hours[day];
+    else if (state === "closed") hours[day] = null;
+    else hours[day] = store.hours[day] ?? { open: "09:00", close: "21:00" };
+
+    // Closed every Shabbos implies the flag
+    update({ hours, ...(day === "sat" && state === "closed" ? { closed_shabbos: true } : {}) });
+  }
+
+  function setTime(day: Day, field: "open" | "close", value: string) {
+    const current = store.hours[day] ?? { open: "", close: "" };
+    update({ hours: { ...store.hours, [day]: { ...current, [field]: value } } });
+  }
+
+  async function findLocation() {
+    setStatus("");
+    const query = [store.address, store.neighbourhood].filter(Boolean).join(", ");
+    if (!query) return setStatus("Enter the address first.");
+
+    try {
+      const res = await fetch(`/api/geocode?q=${encodeURIComponent(query)}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? res.statusText);
+
+      setLat(body.lat.toFixed(6));
+      setLng(body.lng.toFixed(6));
+      setStatus(`Found: ${body.label}`);
+    } catch (e) {
+      console.error(e);
+      setStatus("Error: " + (e instanceof Error ? e.message : "could not look up the address"));
+    }
+  }
+
+  async function save() {
+    setStatus("");
+
+    const latitude = lat.trim() ? Number(lat) : null;
+    const longitude = lng.trim() ? Number(lng) : null;
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) return setStatus("Error: the location must be numbers.");
+
+    setSaving(true);
+    const result = await saveStore(storeId, { ...store, latitude, longitude });
+    setSaving(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    onSaved();
+  }
+
+  return (
+    <div style={{ border: "1px solid #eee", borderRadius: 10, padding: 16, display: "grid", gap: 12, maxWidth: 640 }}>
+      <div style={{ fontWeight: 800 }}>{storeId ? `Edit ${initial.name}` : "Add a store"}</div>
+
+      <label>
+        Name
+        <input
+          value={store.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="e.g. Kosher City Plus"
+          style={inputStyle}
+        />
+      </label>
+
+      <label>
+        Address
+        <input
+          value={store.address ?? ""}
+          onChange={(e) => update({ address: e.target.value })}
+          placeholder="Street, city"
+          style={inputStyle}
+        />
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <label>
+          Neighbourhood
+          <input
+            value={store.neighbourhood ?? ""}
+            onChange={(e) => update({ neighbourhood: e.target.value })}
+            placeholder="e.g. Thornhill"
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          Website
+          <input
+            value={store.website ?? ""}
+            onChange={(e) => update({ website: e.target.value })}
+            placeholder="https://"
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <div>
+        Location
+        <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+          <input
+            value={lat}
+            onChange={(e) => setLat(e.target.value)}
+            placeholder="Latitude, e.g. 43.7338"
+            inputMode="decimal"
+            aria-label="Latitude"
+            style={{ ...inputStyle, marginTop: 0 }}
+          />
+          <input
+            value={lng}
+            onChange={(e) => setLng(e.target.value)}
+            placeholder="Longitude, e.g. -79.4336"
+            inputMode="decimal"
+            aria-label="Longitude"
+            style={{ ...inputStyle, marginTop: 0 }}
+          />
+          <button onClick={findLocation} style={{ ...buttonStyle, background: "#fff", color: "#111", whiteSpace: "nowrap" }}>
+            Find from address
+          </button>
+        </div>
+        <div style={{ fontSize: 12, color: "#777", marginTop: 6 }}>
+          Used for the map and the “near me” filter. Stores without a location are left out of both.
+        </div>
+      </div>
+
+      <div>
+        Opening hours
+        <div style={{ display: "grid", gap: 6, marginTop: 6 }}>
+          {DAYS.map((day) => {
+            const state = dayState(store.hours, day);
+            const h = store.hours[day];
+            return (
+              <div key={day} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <span style={{ width: 90 }}>{DAY_LABELS[day]}</span>
+                <select
+                  value={state}
+                  onChange={(e) => setDay(day, e.target.value as DayState)}
+                  aria-label={`${DAY_LABELS[day]} hours`}
+                  style={{ padding: 6 }}
+                >
+                  <option value="unknown">Not sure</option>
+                  <option value="closed">Closed</option>
+                  <option value="open">Open</option>
+                </select>
+                {h ? (
+                  <>
+                    <input
+                      type="time"
+                      value={h.open}
+                      onChange={(e) => setTime(day, "open", e.target.value)}
+                      aria-label={`${DAY_LABELS[day]} opens`}
+                      style={{ padding: 6 }}
+                    />
+                    –
+                    <input
+                      type="time"
+                      value={h.close}
+                      onChange={(e) => setTime(day, "close", e.target.value)}
+                      aria-label={`${DAY_LABELS[day]} closes`}
+                      style={{ padding: 6 }}
+                    />
+                  </>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 14, flexWrap: "wrap" }}>
+        <label style={checkLabelStyle}>
+          <input
+            type="checkbox"
+            checked={store.closed_shabbos}
+            onChange={(e) => update({ closed_shabbos: e.target.checked })}
+          />
+          Closed on Shabbos
+        </label>
+        <label style={checkLabelStyle}>
+          <input
+            type="checkbox"
+            checked={store.closed_yom_tov}
+            onChange={(e) => update({ closed_yom_tov: e.target.checked })}
+          />
+          Closed on Yom Tov
+        </label>
+      </div>
+
+      <label>
+        Hours note (optional)
+        <input
+          value={store.hours_note ?? ""}
+          onChange={(e) => update({ hours_note: e.target.value })}
+          placeholder="e.g. Fridays close two hours before candle lighting"
+          style={inputStyle}
+        />
+      </label>
+
+      <div style={{ display: "flex", gap: 10 }}>
+        <button onClick={save} disabled={saving} style={buttonStyle}>
+          {saving ? "Saving..." : storeId ? "Save changes" : "Add store"}
+        </button>
+        <button onClick={onCancel} disabled={saving} style={{ ...buttonStyle, background: "#fff", color: "#111" }}>
+          Cancel
+        </button>
+      </div>
+
+      {status ? <div style={{ color: status.startsWith("Error") ? "crimson" : "#166534" }}>{status}</div> : null}
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 800,
+  cursor: "pointer",
+};
+
+const checkLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+};
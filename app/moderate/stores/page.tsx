@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "../../../lib/supabase";
+import { listStoreDetails } from "../../../lib/data";
+import { formatHours, type StoreDetails } from "../../../lib/stores";
+import { reorderStores, setStoreActive } from "../actions";
+import StoreForm, { EMPTY_STORE } from "./StoreForm";
+
+export default function StoresPage() {
+  const [stores, setStores] = useState<StoreDetails[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Store being edited, or "new"
+  const [editing, setEditing] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    listStoreDetails(supabase).then(setStores, (e) => {
+      console.error(e);
+      setStatus("Error: could not load stores.");
+    });
+  }, [reloadKey]);
+
+  function reload() {
+    setEditing(null);
+    setReloadKey((k) => k + 1);
+  }
+
+  async function move(index: number, by: -1 | 1) {
+    const target = index + by;
+    if (target < 0 || target >= stores.length) return;
+
+    const ids = stores.map((s) => s.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    setStatus("");
+    setBusy(true);
+    const result = await reorderStores(ids);
+    setBusy(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    reload();
+  }
+
+  async function toggleActive(store: StoreDetails) {
+    if (store.is_active && !window.confirm(`Hide ${store.name} from the grid and /add? Its prices are kept.`)) return;
+
+    setStatus("");
+    setBusy(true);
+    const result = await setStoreActive(store.id, !store.is_active);
+    setBusy(false);
+
+    if (result.error) return setStatus("Error: " + result.error);
+    reload();
+  }
+
+  const editingStore = stores.find((s) => s.id === editing);
+
+  return (
+    <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
+      <h1 style={{ fontSize: 28, fontWeight: 800, marginBottom: 6 }}>Stores</h1>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        The order here is the column order on the homepage. Deactivate a store that has closed: it disappears from
+        the grid and /add, but its price history stays.
+      </div>
+
+      <div style={{ overflowX: "auto", border: "1px solid #eee", borderRadius: 10, marginBottom: 16 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Order</th>
+              <th style={thStyle}>Store</th>
+              <th style={thStyle}>Hours</th>
+              <th style={thStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {stores.map((s, i) => (
+              <tr key={s.id} style={{ opacity: s.is_active ? 1 : 0.55 }}>
+                <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                  <button onClick={() => move(i, -1)} disabled={busy || i === 0} aria-label={`Move ${s.name} up`}>
+                    ↑
+                  </button>{" "}
+                  <button
+                    onClick={() => move(i, 1)}
+                    disabled={busy || i === stores.length - 1}
+                    aria-label={`Move ${s.name} down`}
+                  >
+                    ↓
+                  </button>
+                </td>
+                <td style={tdStyle}>
+                  <div style={{ fontWeight: 700 }}>
+                    {s.name}
+                    {!s.is_active ? <span style={pillStyle}>INACTIVE</span> : null}
+                  </div>
+                  <div style={{ fontSize: 12, color: "#666" }}>
+                    {[s.neighbourhood, s.address].filter(Boolean).join(" · ")}
+                    {s.website ? (
+                      <>
+                        {s.neighbourhood || s.address ? " · " : ""}
+                        <a href={s.website} target="_blank" rel="noreferrer" style={{ color: "inherit" }}>
+                          website
+                        </a>
+                      </>
+                    ) : null}
+                  </div>
+                </td>
+                <td style={{ ...tdStyle, fontSize: 12, color: "#444" }}>
+                  {formatHours(s.hours) || <span style={{ color: "#888" }}>Not entered</span>}
+                  {s.closed_shabbos || s.closed_yom_tov ? (
+                    <div>
+                      {[s.closed_shabbos && "Closed Shabbos", s.closed_yom_tov && "Closed Yom Tov"]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  ) : null}
+                  {s.hours_note ? <div style={{ color: "#777" }}>{s.hours_note}</div> : null}
+                </td>
+                <td style={{ ...tdStyle, textAlign: "right", whiteSpace: "nowrap" }}>
+                  <button onClick={() => setEditing(s.id)} disabled={busy} style={linkButtonStyle}>
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => toggleActive(s)}
+                    disabled={busy}
+                    style={{ ...linkButtonStyle, color: s.is_active ? "crimson" : "#166534" }}
+                  >
+                    {s.is_active ? "Deactivate" : "Reactivate"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {status ? <div style={{ color: "crimson", marginBottom: 12 }}>{status}</div> : null}
+
+      {editing === "new" ? (
+        <StoreForm storeId={null} initial={EMPTY_STORE} onSaved={reload} onCancel={() => setEditing(null)} />
+      ) : editingStore ? (
+        <StoreForm
+          key={editingStore.id}
+          storeId={editingStore.id}
+          initial={editingStore}
+          onSaved={reload}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button onClick={() => setEditing("new")} style={buttonStyle}>
+          + Add a store
+        </button>
+      )}
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/moderate" style={{ textDecoration: "underline" }}>
+          Back to moderation
+        </Link>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 800,
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  textDecoration: "underline",
+  cursor: "pointer",
+  marginLeft: 10,
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 10,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  verticalAlign: "top",
+};
+
+const pillStyle: React.CSSProperties = {
+  fontSize: 11,
+  border: "1px solid #ddd",
+  borderRadius: 999,
+  padding: "2px 8px",
+  marginLeft: 6,
+  fontWeight: 600,
+};
@@ -1,41 +1,51 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  categoryLabel,
+  categoryPaths,
+  categoryTree,
+  topCategoryId,
+  UNCATEGORISED,
+  type Category,
+  type CategoryStats,
+} from "../lib/categories";
+import { listCategories, listSeasons } from "../lib/data";
+import { daysAgo, errorMessage } from "../lib/format";
+import type { Mode, PriceCell, PriceGridResponse, PriceType } from "../lib/prices";
+import { formatSeasonDates, holidayLabel, seasonChangePct, type Season } from "../lib/seasons";
 import { supabase } from "../lib/supabase";
+import { submitPrice } from "./actions";
+import { formatUnitPrice, unitPrice } from "../lib/units";
+import { variantLabel } from "../lib/variants";
+import { EMPTY_KASHRUT_FILTER, kashrutFilterToParams, kashrutTags, type KashrutFilter } from "../lib/kashrut";
+import { nearToParams } from "../lib/geo";
+import { useNear } from "../lib/near-me";
+import KashrutFilters from "./KashrutFilters";
+import NearFilter from "./NearFilter";
 
-type Mode = "best" | "regular" | "sale";
-
-type Store = { id: string; name: string; sort_order: number };
-
-type Variant = {
-  id: string;
-  product_name: string;
-  brand_name: string;
-  size_value: number | null;
-  size_unit: string | null;
-  flavour: string | null;
-};
-
-type Submission = {
-  id: string;
-  store_id: string;
-  variant_id: string;
-  price_cents: number;
-  price_type: "regular" | "sale";
-  sale_end_date: string | null;
-  created_at: string;
-};
+const PAGE_SIZE = 50;
 
 export default function Home() {
   const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const [mode, setMode] = useState<Mode>("best");
+  const [page, setPage] = useState(1);
 
-
-  const [stores, setStores] = useState<Store[]>([]);
-  const [variants, setVariants] = useState<Variant[]>([]);
-  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [grid, setGrid] = useState<PriceGridResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
   const [onlyWithPrices, setOnlyWithPrices] = useState(true);
+  const [kashrut, setKashrut] = useState<KashrutFilter>(EMPTY_KASHRUT_FILTER);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonId, setSeasonId] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryId, setCategoryId] = useState("");
+  // Top-level categories whose section is folded away
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const near = useNear();
 
   const [editing, setEditing] = useState<{
   variantId: string;
@@ -43,140 +53,135 @@ export default function Home() {
 } | null>(null);
 
 const [editPrice, setEditPrice] = useState("");
-const [editType, setEditType] = useState<"regular" | "sale">("regular");
+const [editType, setEditType] = useState<PriceType>("regular");
 const [editSaleEnd, setEditSaleEnd] = useState("");
 const [editStatus, setEditStatus] = useState<string>("");
 
   useEffect(() => {
-    async function load() {
-      setLoading(true);
+    const t = setTimeout(() => {
+      setDebouncedQuery(query);
+      setPage(1);
+    }, 250);
+    return () => clearTimeout(t);
+  }, [query]);
 
-      const { data: storeData, error: storeErr } = await supabase
-        .from("stores")
-        .select("id,name,sort_order")
-        .order("sort_order", { ascending: true });
-
-      const { data: vData, error: vErr } = await supabase
-        .from("product_variants")
-        .select("id, size_value, size_unit, flavour, products(name), brands(name)")
-        .limit(5000);
-
-      const { data: subData, error: subErr } = await supabase
-  .from("price_submissions")
-  .select("id,store_id,variant_id,price_cents,price_type,sale_end_date,created_at,is_approved")
-  .order("created_at", { ascending: false })
-  .limit(5000);
-
-      if (storeErr) console.error(storeErr);
-      if (vErr) console.error(vErr);
-      if (subErr) console.error(subErr);
-
-      const mappedVariants: Variant[] = (vData ?? []).map((v: any) => ({
-        id: v.id,
-        product_name: v.products?.name ?? "",
-        brand_name: v.brands?.name ?? "",
-        size_value: v.size_value,
-        size_unit: v.size_unit,
-        flavour: v.flavour,
-      }));
-
-      mappedVariants.sort((a, b) => {
-        const keyA =
-          `${a.product_name} ${a.brand_name} ${a.size_value ?? ""}${a.size_unit ?? ""} ${a.flavour ?? ""}`.toLowerCase();
-        const keyB =
-          `${b.product_name} ${b.brand_name} ${b.size_value ?? ""}${b.size_unit ?? ""} ${b.flavour ?? ""}`.toLowerCase();
-        return keyA.localeCompare(keyB);
-      });
-
-      setStores(storeData ?? []);
-      setVariants(mappedVariants);
-      setSubmissions(subData ?? []);
-      setLoading(false);
-    }
-
-    load();
+  useEffect(() => {
+    listSeasons(supabase).then(setSeasons, console.error);
+    listCategories(supabase).then(setCategories, console.error);
   }, []);
 
-  const filteredVariants = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    if (!q) return variants;
-
-    return variants.filter((v) => {
-      const label =
-        `${v.brand_name} ${v.product_name} ${v.size_value ?? ""}${v.size_unit ?? ""} ${v.flavour ?? ""}`.toLowerCase();
-      return label.includes(q);
-    });
-  }, [query, variants]);
-
-  // Build “latest regular + latest sale” map per (variant, store)
-  const latest = useMemo(() => {
-    const map: Record<string, Record<string, { regular?: Submission; sale?: Submission }>> = {};
-
-    for (const s of submissions) {
-      if (!s.variant_id) continue;
-
-      map[s.variant_id] ||= {};
-      map[s.variant_id][s.store_id] ||= {};
-
-      const slot = map[s.variant_id][s.store_id];
+  useEffect(() => {
+    let cancelled = false;
 
-      // Only set if empty because submissions is already ordered newest-first
-      if (s.price_type === "regular" && !slot.regular) slot.regular = s;
-      if (s.price_type === "sale" && !slot.sale) slot.sale = s;
+    async function load() {
+      setLoading(true);
+      setLoadError("");
+
+      const params = new URLSearchParams({
+        q: debouncedQuery,
+        mode,
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+        onlyWithPrices: onlyWithPrices ? "1" : "0",
+      });
+      kashrutFilterToParams(kashrut, params);
+      if (seasonId) params.set("season", seasonId);
+      if (categoryId) params.set("category", categoryId);
+      nearToParams(near, params);
+
+      try {
+        const res = await fetch(`/api/prices?${params}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error ?? res.statusText);
+        if (!cancelled) setGrid(body as PriceGridResponse);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setLoadError(errorMessage(e));
+      }
+
+      if (!cancelled) setLoading(false);
     }
 
-    return map;
-  }, [submissions]);
-
-  function daysAgo(iso: string) {
-    const ms = Date.now() - new Date(iso).getTime();
-    return Math.max(0, Math.round(ms / (1000 * 60 * 60 * 24)));
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, mode, page, onlyWithPrices, kashrut, seasonId, categoryId, near, reloadKey]);
+
+  const stores = grid?.stores ?? [];
+  const rows = grid?.rows ?? [];
+  const pageCount = grid ? Math.max(1, Math.ceil(grid.total / grid.pageSize)) : 1;
+  const paths = useMemo(() => categoryPaths(categories), [categories]);
+  // Search results come best match first, so they aren't split into sections
+  const sectioned = !debouncedQuery.trim();
+
+  function changeMode(next: Mode) {
+    setMode(next);
+    setPage(1);
   }
 
-  function isSaleStillValid(sale: Submission | undefined) {
-    if (!sale) return false;
-    if (!sale.sale_end_date) return true; // no end date => assume active
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const end = new Date(sale.sale_end_date + "T00:00:00");
-    return end >= today;
+  function changeKashrut(next: KashrutFilter) {
+    setKashrut(next);
+    setPage(1);
   }
 
-  function getDisplayPrice(variantId: string, storeId: string) {
-  const slot = latest[variantId]?.[storeId];
-  if (!slot) return {};
+  function changeSeason(next: string) {
+    setSeasonId(next);
+    setPage(1);
+  }
 
-  const regular = slot.regular ? slot.regular.price_cents / 100 : undefined;
-  const saleOk = isSaleStillValid(slot.sale);
-  const sale = slot.sale && saleOk ? slot.sale.price_cents / 100 : undefined;
+  function changeCategory(next: string) {
+    setCategoryId(next);
+    setPage(1);
+  }
 
-  if (mode === "regular") {
-    return slot.regular
-      ? { price: regular, isSale: false, created_at: slot.regular.created_at }
-      : {};
+  function toggleSection(id: string) {
+    setCollapsed((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
   }
 
-  if (mode === "sale") {
-    return slot.sale && saleOk
-      ? { price: sale, isSale: true, created_at: slot.sale.created_at }
-      : {};
+  // "6 items · Cheapest overall: Kosher City Plus, cheapest for 4 of 6, 3% above the lowest price on average"
+  function statsNote(stats: CategoryStats | undefined) {
+    if (!stats) return null;
+
+    const best = stats.stores.find((s) => s.storeId === stats.cheapestStoreId);
+    const store = best ? stores.find((s) => s.id === best.storeId) : undefined;
+    const count = `${stats.items} item${stats.items === 1 ? "" : "s"}`;
+    if (!best || !store) return <span style={{ color: "#777" }}>{count}</span>;
+
+    const abovePct = Math.round((best.index - 1) * 100);
+    return (
+      <span style={{ color: "#555" }} title="Compared over items priced at two or more of the stores shown">
+        {count} · Cheapest overall: <b style={{ color: "#1f7a3a" }}>{store.name}</b>, cheapest for {best.wins} of{" "}
+        {best.priced}
+        {abovePct > 0 ? `, ${abovePct}% above the lowest price on average` : ""}
+      </span>
+    );
   }
 
-  // best
-  if (sale != null && regular != null) {
-    return sale <= regular
-      ? { price: sale, isSale: true, created_at: slot.sale!.created_at }
-      : { price: regular, isSale: false, created_at: slot.regular!.created_at };
+  // "Pesach 2026: $7.99 (+12%)" under a cell in season mode
+  function lastSeasonNote(cell: PriceCell) {
+    const previous = grid?.season?.previous;
+    if (!previous || cell.lastSeason == null) return null;
+
+    const pct = cell.price != null ? seasonChangePct(cell.price, cell.lastSeason) : null;
+    return (
+      <div style={{ fontSize: 12, color: "#777" }} title={`Lowest price here during ${previous.name}`}>
+        {previous.name}: ${cell.lastSeason.toFixed(2)}
+        {pct ? (
+          <span style={{ marginLeft: 6, color: pct > 0 ? "crimson" : "#1f7a3a" }}>
+            ({pct > 0 ? "+" : ""}
+            {pct}%)
+          </span>
+        ) : null}
+      </div>
+    );
   }
-  if (sale != null) return { price: sale, isSale: true, created_at: slot.sale!.created_at };
-  if (regular != null) return { price: regular, isSale: false, created_at: slot.regular!.created_at };
-  return {};
-}
+
 function startEdit(variantId: string, storeId: string) {
   setEditStatus("");
   setEditing({ variantId, storeId });
 
-  const cell: any = getDisplayPrice(variantId, storeId);
+  const cell = rows.find((r) => r.variant.id === variantId)?.cells[storeId];
 
   if (cell?.price != null) {
     setEditPrice(String(cell.price.toFixed(2)));
@@ -202,70 +207,24 @@ async function saveEdit() {
 
   const cents = Math.round(dollars * 100);
 
-  const { error } = await supabase.from("price_submissions").insert({
+  const result = await submitPrice({
     store_id: editing.storeId,
     variant_id: editing.variantId,
     price_cents: cents,
     price_type: editType,
     sale_end_date: editType === "sale" && editSaleEnd ? editSaleEnd : null,
-    is_approved: false,
   });
 
-  if (error) {
-    setEditStatus("Error: " + error.message);
+  if (result.error !== null) {
+    setEditStatus("Error: " + result.error);
     return;
   }
 
-  setEditStatus("Saved! (waiting approval)");
-
-  const { data: subData } = await supabase
-    .from("price_submissions")
-    .select("id,store_id,variant_id,price_cents,price_type,sale_end_date,created_at,is_approved")
-    .order("created_at", { ascending: false })
-    .limit(5000);
-
-  setSubmissions(subData ?? []);
+  setEditStatus(result.approved ? "Saved!" : "Saved! (waiting approval)");
+  setReloadKey((k) => k + 1);
   setEditing(null);
 }
 
-   
-  function getCheapestInfo(variantId: string) {
-    const vals: { storeId: string; price: number }[] = [];
-
-
-    for (const s of stores) {
-      const cell = getDisplayPrice(variantId, s.id);
-      if (cell.price != null) vals.push({ storeId: s.id, price: cell.price });
-    }
-
-    vals.sort((a, b) => a.price - b.price);
-
-    const cheapest = vals[0];
-    const second = vals[1];
-
-    if (!cheapest) return { cheapestStoreId: null as string | null, savePct: null as number | null };
-    if (!second) return { cheapestStoreId: cheapest.storeId, savePct: null };
-
-    const savePct = ((second.price - cheapest.price) / second.price) * 100;
-    return { cheapestStoreId: cheapest.storeId, savePct: Math.round(savePct * 10) / 10 };
-  }
-
-  function variantLabel(v: Variant) {
-  const size =
-    v.size_value != null && v.size_unit ? ` — ${v.size_value}${v.size_unit}` : "";
-  const flav = v.flavour ? ` — ${v.flavour}` : "";
-  // ✅ Product first, then brand, then size/flavour
-  return `${v.product_name} — ${v.brand_name}${size}${flav}`;
-}
-
-const hasAnyPrice = (variantId: string) => {
-  for (const s of stores) {
-    const cell = getDisplayPrice(variantId, s.id);
-    if (cell.price != null) return true;
-  }
-  return false;
-};
-
   return (
     <main style={{ padding: 24, fontFamily: "system-ui" }}>
       <h1 style={{ fontSize: 22, fontWeight: 700, marginBottom: 12 }}>Kosher Prices (Toronto)</h1>
@@ -285,21 +244,54 @@ const hasAnyPrice = (variantId: string) => {
         />
 
         <div style={{ display: "flex", gap: 8 }}>
-          <ToggleButton active={mode === "best"} onClick={() => setMode("best")}>
+          <ToggleButton active={mode === "best"} onClick={() => changeMode("best")}>
             Best
           </ToggleButton>
-          <ToggleButton active={mode === "regular"} onClick={() => setMode("regular")}>
+          <ToggleButton active={mode === "regular"} onClick={() => changeMode("regular")}>
             Regular
           </ToggleButton>
-          <ToggleButton active={mode === "sale"} onClick={() => setMode("sale")}>
+          <ToggleButton active={mode === "sale"} onClick={() => changeMode("sale")}>
             Sale
           </ToggleButton>
         </div>
+
+        <select
+          value={seasonId}
+          onChange={(e) => changeSeason(e.target.value)}
+          aria-label="Season"
+          style={{ padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
+        >
+          <option value="">All year</option>
+          {seasons.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={categoryId}
+          onChange={(e) => changeCategory(e.target.value)}
+          aria-label="Category"
+          style={{ padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
+        >
+          <option value="">All categories</option>
+          {categoryTree(categories).map(({ category, depth }) => (
+            <option key={category.id} value={category.id}>
+              {"\u00a0\u00a0\u00a0".repeat(depth)}
+              {category.name}
+            </option>
+          ))}
+          <option value={UNCATEGORISED}>Other</option>
+        </select>
         <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, color: "#444" }}>
   <input
     type="checkbox"
     checked={onlyWithPrices}
-    onChange={(e) => setOnlyWithPrices(e.target.checked)}
+    onChange={(e) => {
+      setOnlyWithPrices(e.target.checked);
+      setPage(1);
+    }}
   />
   Only show items with prices
 </label>
@@ -320,6 +312,28 @@ const hasAnyPrice = (variantId: string) => {
 
       </div>
 
+      <KashrutFilters value={kashrut} onChange={changeKashrut} />
+      <NearFilter onChange={() => setPage(1)} />
+
+      {grid?.season ? (
+        <div
+          style={{
+            background: "#fff7e6",
+            border: "1px solid #fde1a8",
+            borderRadius: 10,
+            padding: 12,
+            marginBottom: 14,
+            fontSize: 13,
+          }}
+        >
+          <b>{grid.season.current.name}</b> ({formatSeasonDates(grid.season.current)}): only{" "}
+          {holidayLabel(grid.season.current.holiday)} items, priced from submissions in that window.{" "}
+          {grid.season.previous
+            ? `Each store also shows its lowest price from ${grid.season.previous.name}.`
+            : "There’s no earlier season to compare with yet."}
+        </div>
+      ) : null}
+
       <a
         href="/add"
         style={{
@@ -354,11 +368,69 @@ const hasAnyPrice = (variantId: string) => {
         + Add a Product
       </a>
 
+      <Link
+        href="/list"
+        style={{
+          display: "inline-block",
+          marginLeft: 10,
+          marginBottom: 12,
+          padding: "10px 16px",
+          border: "1px solid #111",
+          color: "#111",
+          borderRadius: 10,
+          textDecoration: "none",
+          fontWeight: 700,
+          background: "white",
+        }}
+      >
+        Shopping List
+      </Link>
+
+      <Link
+        href="/inbox"
+        style={{
+          display: "inline-block",
+          marginLeft: 10,
+          marginBottom: 12,
+          padding: "10px 16px",
+          border: "1px solid #111",
+          color: "#111",
+          borderRadius: 10,
+          textDecoration: "none",
+          fontWeight: 700,
+          background: "white",
+        }}
+      >
+        Alerts
+      </Link>
+
+      <Link
+        href="/map"
+        style={{
+          display: "inline-block",
+          marginLeft: 10,
+          marginBottom: 12,
+          padding: "10px 16px",
+          border: "1px solid #111",
+          color: "#111",
+          borderRadius: 10,
+          textDecoration: "none",
+          fontWeight: 700,
+          background: "white",
+        }}
+      >
+        Map
+      </Link>
+
       <div style={{ color: "#666", fontSize: 13, marginBottom: 16 }}>
         Prices are crowd-submitted and time-stamped. Always double-check in store.
       </div>
 
-      {loading ? (
+      {loadError ? (
+        <div style={{ color: "crimson", marginBottom: 12 }}>Error: {loadError}</div>
+      ) : null}
+
+      {loading && !grid ? (
         <div style={{ color: "#666" }}>Loading…</div>
       ) : (
         <div style={{ overflowX: "auto", border: "1px solid #eee", borderRadius: 10 }}>
@@ -369,64 +441,139 @@ const hasAnyPrice = (variantId: string) => {
                 {stores.map((s) => (
                   <th key={s.id} style={thStyle}>
                     {s.name}
+                    {grid?.distances?.[s.id] != null ? (
+                      <div style={{ fontWeight: 400, fontSize: 12, color: "#777" }}>{grid.distances[s.id]} km</div>
+                    ) : null}
                   </th>
                 ))}
               </tr>
             </thead>
 
             <tbody>
-              {filteredVariants
-  .filter((v) => (onlyWithPrices ? hasAnyPrice(v.id) : true))
-  .map((v) => {
+              {rows.map(({ variant: v, cells, cheapestStoreId, savePct, sizeRank }, i) => {
+                const section = topCategoryId(paths, v.category_id);
+                const startsSection =
+                  sectioned && (i === 0 || topCategoryId(paths, rows[i - 1].variant.category_id) !== section);
+                const folded = sectioned && collapsed.includes(section);
 
-                const { cheapestStoreId, savePct } = getCheapestInfo(v.id);
                 return (
-                  <tr key={v.id}>
-                    <td style={tdStyleStrong}>{variantLabel(v)}</td>
-
-                    {stores.map((s) => {
-                      const cell = getDisplayPrice(v.id, s.id);
-                      const isCheapest = cheapestStoreId === s.id && cell.price != null;
-
-                      return (
-                        <td
-                          key={s.id}
-                          onClick={() => startEdit(v.id, s.id)}
-                          style={{
-                           ...tdStyle,
-                           background: isCheapest ? "#eaf7ee" : undefined,
-                           cursor: "pointer",
-                         }}
-                         title="Click to add/change price"
-                      >
-
-                          {cell.price == null ? (
-                            <span style={{ color: "#888" }}>—</span>
-                          ) : (
-                            <div>
-                              <div style={{ fontWeight: isCheapest ? 700 : 600 }}>
-                                ${cell.price.toFixed(2)}
-                                {cell.isSale ? <span style={pillStyle}>SALE</span> : null}
-                              </div>
-
-                              <div style={{ fontSize: 12, color: "#777" }}>
-                                {cell.created_at ? `${daysAgo(cell.created_at)}d ago` : ""}
-                                {isCheapest && savePct != null ? (
-                                  <span style={{ marginLeft: 8, color: "#1f7a3a" }}>Save {savePct}%</span>
-                                ) : null}
-                              </div>
+                  <Fragment key={v.id}>
+                    {startsSection ? (
+                      <tr>
+                        <td colSpan={stores.length + 1} style={sectionStyle}>
+                          <button onClick={() => toggleSection(section)} aria-expanded={!folded} style={sectionButtonStyle}>
+                            {folded ? "▸" : "▾"} {section === UNCATEGORISED ? "Other" : categoryLabel(paths, section)}
+                          </button>
+                          <span style={{ marginLeft: 10, fontSize: 12 }}>{statsNote(grid?.categoryStats[section])}</span>
+                        </td>
+                      </tr>
+                    ) : null}
+                    {folded ? null : (
+                      <tr>
+                        <td style={tdStyleStrong}>
+                          <Link href={`/variant/${v.id}`} style={{ color: "inherit" }} title="Price history">
+                            {variantLabel(v)}
+                          </Link>
+                          {kashrutTags(v).length > 0 ? (
+                            <div style={{ fontSize: 12, fontWeight: 500, color: "#555" }}>{kashrutTags(v).join(" · ")}</div>
+                          ) : null}
+                          {sizeRank ? (
+                            <div
+                              style={{ fontSize: 12, fontWeight: 500, color: sizeRank.rank === 1 ? "#1f7a3a" : "#777" }}
+                              title="Ranked by unit price against other sizes of this product and brand"
+                            >
+                              {sizeRank.rank === 1
+                                ? `Best value of ${sizeRank.of} sizes`
+                                : `#${sizeRank.rank} of ${sizeRank.of} sizes by unit price`}
                             </div>
-                          )}
+                          ) : null}
                         </td>
-                      );
-                    })}
-                  </tr>
+
+                        {stores.map((s) => {
+                          const cell = cells[s.id] ?? {};
+                          const isCheapest = cheapestStoreId === s.id && cell.price != null;
+                          const perUnit = cell.price != null ? unitPrice(cell.price, v) : null;
+
+                          return (
+                            <td
+                              key={s.id}
+                              onClick={() => startEdit(v.id, s.id)}
+                              style={{
+                               ...tdStyle,
+                               background: isCheapest ? "#eaf7ee" : undefined,
+                               cursor: "pointer",
+                             }}
+                             title="Click to add/change price"
+                          >
+
+                              {cell.price == null ? (
+                                <div>
+                                  <span style={{ color: "#888" }}>—</span>
+                                  {lastSeasonNote(cell)}
+                                </div>
+                              ) : (
+                                <div>
+                                  <div style={{ fontWeight: isCheapest ? 700 : 600 }}>
+                                    ${cell.price.toFixed(2)}
+                                    {cell.isSale ? <span style={pillStyle}>SALE</span> : null}
+                                    {cell.pending ? (
+                                      <span
+                                        style={{ ...pillStyle, borderColor: "#f59e0b", color: "#92400e" }}
+                                        title="Only you can see this until a moderator approves it"
+                                      >
+                                        PENDING
+                                      </span>
+                                    ) : null}
+                                  </div>
+
+                                  {perUnit ? (
+                                    <div style={{ fontSize: 12, color: "#555" }}>{formatUnitPrice(perUnit)}</div>
+                                  ) : null}
+
+                                  <div style={{ fontSize: 12, color: "#777" }}>
+                                    {cell.created_at ? `${daysAgo(cell.created_at)}d ago` : ""}
+                                    {isCheapest && savePct != null ? (
+                                      <span style={{ marginLeft: 8, color: "#1f7a3a" }}>Save {savePct}%</span>
+                                    ) : null}
+                                  </div>
+
+                                  {lastSeasonNote(cell)}
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    )}
+                  </Fragment>
                 );
               })}
             </tbody>
           </table>
         </div>
       )}
+
+      {grid && grid.total > grid.pageSize ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 10, marginTop: 12, fontSize: 13, color: "#444" }}>
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            style={{ ...buttonStyle, background: "white", color: "#111", border: "1px solid #ddd" }}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {pageCount} ({grid.total} items)
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+            disabled={page >= pageCount}
+            style={{ ...buttonStyle, background: "white", color: "#111", border: "1px solid #ddd" }}
+          >
+            Next
+          </button>
+        </div>
+      ) : null}
      {editing ? (
   <div
     style={{
@@ -460,7 +607,7 @@ const hasAnyPrice = (variantId: string) => {
         Type
         <select
           value={editType}
-          onChange={(e) => setEditType(e.target.value as any)}
+          onChange={(e) => setEditType(e.target.value as PriceType)}
           style={{ ...inputStyle, marginTop: 6 }}
         >
           <option value="regular">Regular</option>
@@ -558,6 +705,22 @@ const tdStyleStrong: React.CSSProperties = {
   whiteSpace: "nowrap",
 };
 
+const sectionStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderBottom: "1px solid #eee",
+  background: "#f6f7f9",
+  whiteSpace: "nowrap",
+};
+
+const sectionButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: 0,
+  padding: 0,
+  fontWeight: 800,
+  fontSize: 14,
+  cursor: "pointer",
+};
+
 const tdStyle: React.CSSProperties = {
   padding: 12,
   borderBottom: "1px solid #f2f2f2",
@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "../../lib/supabase";
+import { listStores, listVariants } from "../../lib/data";
+import type { PriceType, Store } from "../../lib/prices";
+import type { MatchedReceiptLine } from "../../lib/receipts";
+import type { Variant } from "../../lib/variants";
+import { submitPrices } from "../actions";
+import VariantCombobox from "../add/VariantCombobox";
+
+// One editable row per extracted line
+type Row = {
+  key: number;
+  text: string;
+  include: boolean;
+  variantId: string;
+  price: string; // dollars, as typed
+  type: PriceType;
+};
+
+function toRows(lines: MatchedReceiptLine[]): Row[] {
+  return lines.map((l, i) => ({
+    key: i,
+    text: l.quantity > 1 ? `${l.text} (×${l.quantity})` : l.text,
+    include: l.variantId != null,
+    variantId: l.variantId ?? "",
+    price: (l.priceCents / 100).toFixed(2),
+    type: l.isSale ? "sale" : "regular",
+  }));
+}
+
+export default function ReceiptPage() {
+  const [stores, setStores] = useState<Store[]>([]);
+  const [variants, setVariants] = useState<Variant[]>([]);
+
+  const [storeId, setStoreId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [rows, setRows] = useState<Row[]>([]);
+
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      try {
+        setStores(await listStores(supabase));
+        setVariants(await listVariants(supabase));
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load stores and products.");
+      }
+    }
+
+    load();
+  }, []);
+
+  function updateRow(key: number, patch: Partial<Row>) {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  }
+
+  async function readReceipt() {
+    setStatus("");
+    if (!file && !pasted.trim()) return setStatus("Choose a receipt file or paste its text.");
+
+    const form = new FormData();
+    if (file) form.set("file", file);
+    else form.set("text", pasted);
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/receipts", { method: "POST", body: form });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? res.statusText);
+
+      const lines = body.lines as MatchedReceiptLine[];
+      setRows(toRows(lines));
+      if (lines.length === 0) setStatus("No items found on that receipt.");
+    } catch (e) {
+      console.error(e);
+      setStatus("Error: " + (e instanceof Error ? e.message : "could not read the receipt"));
+    }
+    setBusy(false);
+  }
+
+  async function submitAll() {
+    setStatus("");
+    if (!storeId) return setStatus("Pick the store this receipt is from.");
+
+    const chosen = rows.filter((r) => r.include);
+    if (chosen.length === 0) return setStatus("Tick at least one line to submit.");
+    if (chosen.some((r) => !r.variantId)) return setStatus("Pick a product for every ticked line.");
+
+    const inputs = chosen.map((r) => ({
+      store_id: storeId,
+      variant_id: r.variantId,
+      price_cents: Math.round(Number(r.price) * 100),
+      price_type: r.type,
+      sale_end_date: null,
+    }));
+    if (inputs.some((i) => !Number.isFinite(i.price_cents) || i.price_cents <= 0)) {
+      return setStatus("Every ticked line needs a valid price like 12.99.");
+    }
+
+    setBusy(true);
+    const result = await submitPrices(inputs);
+    setBusy(false);
+
+    if (result.error !== null) return setStatus("Error: " + result.error);
+
+    setRows([]);
+    setFile(null);
+    setPasted("");
+    setStatus(
+      `Saved ${inputs.length} price${inputs.length === 1 ? "" : "s"}: ${result.approved} published, ${result.pending} waiting for a moderator.`
+    );
+  }
+
+  const included = rows.filter((r) => r.include).length;
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 1100,
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ fontSize: 32, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>
+        Submit a Receipt
+      </h1>
+      <div style={{ color: "#666", marginBottom: 16, lineHeight: 1.4 }}>
+        Upload a receipt to submit every price on it at once. Check each line’s product before submitting.
+      </div>
+
+      <div style={{ display: "grid", gap: 12, maxWidth: 560 }}>
+        <label>
+          Store
+          <select value={storeId} onChange={(e) => setStoreId(e.target.value)} style={inputStyle}>
+            <option value="">Select…</option>
+            {stores.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Receipt (photo, PDF or text file)
+          <input
+            type="file"
+            accept="image/*,application/pdf,text/plain"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            style={inputStyle}
+          />
+        </label>
+
+        <label>
+          Or paste the receipt text
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={5}
+            placeholder={"KEDEM GRAPE JUICE 1.89L   8.99\n2 @ 3.49                  6.98"}
+            style={{ ...inputStyle, fontFamily: "monospace" }}
+          />
+        </label>
+
+        <button onClick={readReceipt} disabled={busy} style={buttonStyle}>
+          {busy && rows.length === 0 ? "Reading..." : "Read receipt"}
+        </button>
+      </div>
+
+      {rows.length > 0 ? (
+        <>
+          <div style={{ overflowX: "auto", border: "1px solid #eee", borderRadius: 10, marginTop: 20 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={thStyle} />
+                  <th style={thStyle}>On the receipt</th>
+                  <th style={thStyle}>Product</th>
+                  <th style={thStyle}>Price (each)</th>
+                  <th style={thStyle}>Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.key} style={{ opacity: r.include ? 1 : 0.5 }}>
+                    <td style={tdStyle}>
+                      <input
+                        type="checkbox"
+                        checked={r.include}
+                        onChange={(e) => updateRow(r.key, { include: e.target.checked })}
+                      />
+                    </td>
+                    <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 13 }}>{r.text}</td>
+                    <td style={{ ...tdStyle, minWidth: 320 }}>
+                      <VariantCombobox
+                        variants={variants}
+                        value={r.variantId}
+                        onChange={(variantId) => updateRow(r.key, { variantId, include: true })}
+                        onCreated={(v) => {
+                          setVariants((prev) => [...prev, v]);
+                          updateRow(r.key, { variantId: v.id, include: true });
+                        }}
+                      />
+                    </td>
+                    <td style={tdStyle}>
+                      <input
+                        value={r.price}
+                        onChange={(e) => updateRow(r.key, { price: e.target.value })}
+                        inputMode="decimal"
+                        style={{ width: 80, padding: 6 }}
+                      />
+                    </td>
+                    <td style={tdStyle}>
+                      <select
+                        value={r.type}
+                        onChange={(e) => updateRow(r.key, { type: e.target.value as PriceType })}
+                        style={{ padding: 6 }}
+                      >
+                        <option value="regular">Regular</option>
+                        <option value="sale">Sale</option>
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button onClick={submitAll} disabled={busy} style={{ ...buttonStyle, marginTop: 14 }}>
+            {busy ? "Submitting..." : `Submit ${included} price${included === 1 ? "" : "s"}`}
+          </button>
+        </>
+      ) : null}
+
+      {status ? (
+        <div style={{ marginTop: 12, color: status.startsWith("Error") ? "crimson" : undefined }}>{status}</div>
+      ) : null}
+
+      <div style={{ marginTop: 20, display: "flex", gap: 14 }}>
+        <Link href="/add" style={{ textDecoration: "underline" }}>
+          Submit a single price
+        </Link>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  border: "1px solid #ddd",
+  borderRadius: 8,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 700,
+  cursor: "pointer",
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 12,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+  whiteSpace: "nowrap",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 12,
+  borderBottom: "1px solid #f2f2f2",
+  verticalAlign: "top",
+};
@@ -0,0 +1,105 @@
+import type { Store, Submission } from "../../../lib/prices";
+
+const WIDTH = 820;
+const HEIGHT = 280;
+const PAD = { top: 16, right: 16, bottom: 32, left: 56 };
+
+const COLORS = ["#2563eb", "#16a34a", "#dc2626", "#9333ea", "#ea580c", "#0891b2", "#ca8a04", "#db2777"];
+
+function shortDate(ms: number) {
+  return new Date(ms).toLocaleDateString("en-CA", { month: "short", day: "numeric", year: "2-digit" });
+}
+
+// Time-series of approved prices: one colour per store, solid line for
+// regular, dashed line with dots for sale.
+export default function PriceChart({ history, stores }: { history: Submission[]; stores: Store[] }) {
+  if (history.length === 0) return null;
+
+  const times = history.map((s) => new Date(s.created_at).getTime());
+  const prices = history.map((s) => s.price_cents / 100);
+
+  let minT = Math.min(...times);
+  let maxT = Math.max(...times);
+  if (minT === maxT) {
+    minT -= 24 * 60 * 60 * 1000;
+    maxT += 24 * 60 * 60 * 1000;
+  }
+
+  const spread = Math.max(...prices) - Math.min(...prices) || 1;
+  const minP = Math.max(0, Math.min(...prices) - spread * 0.1);
+  const maxP = Math.max(...prices) + spread * 0.1;
+
+  const x = (ms: number) => PAD.left + ((ms - minT) / (maxT - minT)) * (WIDTH - PAD.left - PAD.right);
+  const y = (price: number) => PAD.top + (1 - (price - minP) / (maxP - minP)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const yTicks = [0, 1, 2, 3, 4].map((i) => minP + ((maxP - minP) * i) / 4);
+  const xTicks = [minT, (minT + maxT) / 2, maxT];
+
+  const series = stores
+    .map((store, i) => {
+      const rows = history.filter((s) => s.store_id === store.id);
+      const points = (type: Submission["price_type"]) =>
+        rows
+          .filter((s) => s.price_type === type)
+          .map((s) => ({ id: s.id, x: x(new Date(s.created_at).getTime()), y: y(s.price_cents / 100) }));
+
+      return { store, color: COLORS[i % COLORS.length], regular: points("regular"), sale: points("sale") };
+    })
+    .filter((s) => s.regular.length > 0 || s.sale.length > 0);
+
+  const line = (pts: { x: number; y: number }[]) => pts.map((p) => `${p.x},${p.y}`).join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", height: "auto", display: "block" }}>
+        {yTicks.map((t) => (
+          <g key={t}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#eee" />
+            <text x={PAD.left - 8} y={y(t) + 4} textAnchor="end" fontSize={11} fill="#777">
+              ${t.toFixed(2)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((t, i) => (
+          <text
+            key={t}
+            x={x(t)}
+            y={HEIGHT - 10}
+            textAnchor={i === 0 ? "start" : i === xTicks.length - 1 ? "end" : "middle"}
+            fontSize={11}
+            fill="#777"
+          >
+            {shortDate(t)}
+          </text>
+        ))}
+
+        {series.map((s) => (
+          <g key={s.store.id}>
+            {s.regular.length > 1 ? (
+              <polyline points={line(s.regular)} fill="none" stroke={s.color} strokeWidth={2} />
+            ) : null}
+            {s.regular.map((p) => (
+              <circle key={p.id} cx={p.x} cy={p.y} r={2.5} fill={s.color} />
+            ))}
+            {s.sale.length > 1 ? (
+              <polyline points={line(s.sale)} fill="none" stroke={s.color} strokeWidth={1.5} strokeDasharray="4 3" />
+            ) : null}
+            {s.sale.map((p) => (
+              <circle key={p.id} cx={p.x} cy={p.y} r={4} fill="white" stroke={s.color} strokeWidth={2} />
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div style={{ display: "flex", gap: 14, flexWrap: "wrap", fontSize: 12, color: "#444", marginTop: 6 }}>
+        {series.map((s) => (
+          <span key={s.store.id} style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+            <span style={{ width: 12, height: 3, background: s.color, display: "inline-block" }} />
+            {s.store.name}
+          </span>
+        ))}
+        <span style={{ color: "#777" }}>Solid = regular · dashed/open dots = sale</span>
+      </div>
+    </div>
+  );
+}
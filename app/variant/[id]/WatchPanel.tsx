@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { User } from "@supabase/supabase-js";
+import { WATCH_SELECT, type Watch } from "../../../lib/alerts";
+import { supabase } from "../../../lib/supabase";
+
+// Lets a signed-in user watch this variant for a target price and/or sales.
+export default function WatchPanel({ variantId }: { variantId: string }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [watch, setWatch] = useState<Watch | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [target, setTarget] = useState("");
+  const [onSale, setOnSale] = useState(true);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      setUser(user);
+
+      if (user) {
+        const { data, error } = await supabase
+          .from("watches")
+          .select(WATCH_SELECT)
+          .eq("user_id", user.id)
+          .eq("variant_id", variantId)
+          .maybeSingle<Watch>();
+        if (error) console.error(error);
+
+        setWatch(data ?? null);
+        if (data) {
+          setTarget(data.target_price_cents != null ? (data.target_price_cents / 100).toFixed(2) : "");
+          setOnSale(data.notify_on_sale);
+        }
+      }
+
+      setLoading(false);
+    }
+
+    load();
+  }, [variantId]);
+
+  async function save() {
+    if (!user) return;
+    setStatus("");
+
+    const dollars = target.trim() ? Number(target) : null;
+    if (dollars !== null && (!Number.isFinite(dollars) || dollars <= 0)) {
+      return setStatus("Enter a target like 9.99, or leave it blank.");
+    }
+    if (dollars === null && !onSale) return setStatus("Pick a target price or sale alerts (or both).");
+
+    const { data, error } = await supabase
+      .from("watches")
+      .upsert(
+        {
+          user_id: user.id,
+          variant_id: variantId,
+          target_price_cents: dollars === null ? null : Math.round(dollars * 100),
+          notify_on_sale: onSale,
+        },
+        { onConflict: "user_id,variant_id" }
+      )
+      .select(WATCH_SELECT)
+      .single<Watch>();
+
+    if (error) return setStatus("Error: " + error.message);
+    setWatch(data);
+    setStatus("Watching! Alerts go to your inbox and email.");
+  }
+
+  async function remove() {
+    if (!watch) return;
+
+    const { error } = await supabase.from("watches").delete().eq("id", watch.id);
+    if (error) return setStatus("Error: " + error.message);
+
+    setWatch(null);
+    setTarget("");
+    setOnSale(true);
+    setStatus("Stopped watching.");
+  }
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <div style={panelStyle}>
+        <Link href={`/login?next=/variant/${variantId}`} style={{ textDecoration: "underline" }}>
+          Sign in
+        </Link>{" "}
+        to watch this item and get price-drop and sale alerts.
+      </div>
+    );
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ fontWeight: 700, marginBottom: 8 }}>{watch ? "Watching this item" : "Watch this item"}</div>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          Alert me at or below $
+          <input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="9.99"
+            inputMode="decimal"
+            style={{ width: 80, padding: 6, border: "1px solid #ddd", borderRadius: 6 }}
+          />
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <input type="checkbox" checked={onSale} onChange={(e) => setOnSale(e.target.checked)} />
+          Any store puts it on sale
+        </label>
+        <button onClick={save} style={buttonStyle}>
+          {watch ? "Update" : "Watch"}
+        </button>
+        {watch ? (
+          <button onClick={remove} style={{ ...buttonStyle, background: "white", color: "#111", border: "1px solid #ddd" }}>
+            Stop watching
+          </button>
+        ) : null}
+      </div>
+      {status ? (
+        <div style={{ marginTop: 8, fontSize: 13, color: status.startsWith("Error") ? "crimson" : "#166534" }}>
+          {status}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const panelStyle: React.CSSProperties = {
+  border: "1px solid #eee",
+  borderRadius: 10,
+  padding: 14,
+  marginTop: 14,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 8,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 700,
+  cursor: "pointer",
+};
@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { supabase } from "../../../lib/supabase";
+import { fetchApprovedHistory, getVariant, listStores } from "../../../lib/data";
+import { money } from "../../../lib/format";
+import { LOWEST_WINDOW_DAYS, lowestSince, storeHistoryStats } from "../../../lib/history";
+import type { Store, Submission } from "../../../lib/prices";
+import { kashrutTags } from "../../../lib/kashrut";
+import { variantLabel, type Variant } from "../../../lib/variants";
+import PriceChart from "./PriceChart";
+import WatchPanel from "./WatchPanel";
+
+function day(iso: string) {
+  return new Date(iso).toLocaleDateString("en-CA");
+}
+
+export default function VariantPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const [variant, setVariant] = useState<Variant | null>(null);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [history, setHistory] = useState<Submission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+
+      try {
+        const [v, storeList, rows] = await Promise.all([
+          getVariant(supabase, id),
+          listStores(supabase, { includeInactive: true }),
+          fetchApprovedHistory(supabase, id),
+        ]);
+        setVariant(v);
+        setStores(storeList);
+        setHistory(rows);
+      } catch (e) {
+        console.error(e);
+        setStatus("Error: could not load price history.");
+      }
+
+      setLoading(false);
+    }
+
+    load();
+  }, [id]);
+
+  const storeName = useMemo(() => new Map(stores.map((s) => [s.id, s.name])), [stores]);
+  const stats = useMemo(() => storeHistoryStats(history, stores), [history, stores]);
+  const lowest = useMemo(() => lowestSince(history), [history]);
+  const newestFirst = useMemo(() => [...history].reverse(), [history]);
+
+  return (
+    <main
+      style={{
+        padding: "32px 24px",
+        fontFamily: "-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif",
+        maxWidth: 1100,
+        margin: "0 auto",
+      }}
+    >
+      {loading ? (
+        <div style={{ color: "#666" }}>Loading…</div>
+      ) : !variant ? (
+        <div>Product not found.</div>
+      ) : (
+        <>
+          <h1 style={{ fontSize: 28, fontWeight: 800, letterSpacing: -0.5, marginBottom: 6 }}>
+            {variantLabel(variant)}
+          </h1>
+          <div style={{ color: "#666", marginBottom: 18, lineHeight: 1.4 }}>
+            {kashrutTags(variant).length > 0 ? <>{kashrutTags(variant).join(" · ")}. </> : null}
+            {history.length} approved price{history.length === 1 ? "" : "s"} on record.{" "}
+            <Link href={`/map?variant=${variant.id}`} style={{ color: "inherit" }}>
+              See on the map
+            </Link>
+          </div>
+
+          {status ? <div style={{ color: "crimson", marginBottom: 12 }}>{status}</div> : null}
+
+          <div style={cardStyle}>
+            <div style={{ fontSize: 13, color: "#666" }}>Lowest in the past {LOWEST_WINDOW_DAYS} days</div>
+            {lowest ? (
+              <div style={{ fontSize: 22, fontWeight: 800 }}>
+                {money(lowest.price_cents)}
+                <span style={{ fontSize: 14, fontWeight: 500, color: "#444", marginLeft: 8 }}>
+                  {lowest.price_type === "sale" ? "on sale " : ""}at {storeName.get(lowest.store_id) ?? "?"} ·{" "}
+                  {day(lowest.created_at)}
+                </span>
+              </div>
+            ) : (
+              <div style={{ color: "#888" }}>No prices in that window.</div>
+            )}
+          </div>
+
+          <WatchPanel variantId={variant.id} />
+
+          {history.length > 0 ? (
+            <div style={{ ...cardStyle, marginTop: 14 }}>
+              <PriceChart history={history} stores={stores} />
+            </div>
+          ) : null}
+
+          <h2 style={h2Style}>By store</h2>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Store</th>
+                <th style={thStyle}>Latest regular</th>
+                <th style={thStyle}>Lowest ever</th>
+                <th style={thStyle}>On sale</th>
+                <th style={thStyle}>Last sale</th>
+                <th style={thStyle}>Prices</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats
+                .filter((s) => s.count > 0)
+                .map((s) => (
+                  <tr key={s.storeId}>
+                    <td style={tdStyle}>{storeName.get(s.storeId)}</td>
+                    <td style={tdStyle}>{s.latestRegular ? money(s.latestRegular.price_cents) : "—"}</td>
+                    <td style={tdStyle}>{s.lowest ? money(s.lowest.price_cents) : "—"}</td>
+                    <td style={tdStyle} title="Share of observed weeks with a sale reported">
+                      {s.saleWeekPct != null ? `${Math.round(s.saleWeekPct * 100)}% of weeks` : "—"}
+                    </td>
+                    <td style={tdStyle}>
+                      {s.lastSale ? `${money(s.lastSale.price_cents)} · ${day(s.lastSale.created_at)}` : "—"}
+                    </td>
+                    <td style={tdStyle}>{s.count}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+
+          <h2 style={h2Style}>Full history</h2>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Date</th>
+                <th style={thStyle}>Store</th>
+                <th style={thStyle}>Type</th>
+                <th style={thStyle}>Price</th>
+                <th style={thStyle}>Sale ends</th>
+              </tr>
+            </thead>
+            <tbody>
+              {newestFirst.map((s) => (
+                <tr key={s.id}>
+                  <td style={tdStyle}>{day(s.created_at)}</td>
+                  <td style={tdStyle}>{storeName.get(s.store_id)}</td>
+                  <td style={tdStyle}>{s.price_type === "sale" ? "Sale" : "Regular"}</td>
+                  <td style={tdStyle}>{money(s.price_cents)}</td>
+                  <td style={tdStyle}>{s.sale_end_date ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div style={{ marginTop: 20 }}>
+        <Link href="/" style={{ textDecoration: "underline" }}>
+          Back to homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid #eee",
+  borderRadius: 10,
+  padding: 14,
+};
+
+const h2Style: React.CSSProperties = {
+  fontSize: 18,
+  fontWeight: 700,
+  margin: "24px 0 8px",
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontWeight: 600,
+  fontSize: 13,
+  padding: 10,
+  borderBottom: "1px solid #eee",
+  background: "#fafafa",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: 10,
+  borderBottom: "1px solid #f2f2f2",
+  fontSize: 14,
+};
@@ -0,0 +1,131 @@
+import { after } from "next/server";
+import { fetchApprovedHistory, getVariant, type DbClient } from "./data";
+import type { Enums, Tables } from "./database.types";
+import { getEmailSender, type EmailSender } from "./email";
+import { money } from "./format";
+import { buildLatestMap, isSaleStillValid, SUBMISSION_SELECT, type Submission } from "./prices";
+import { createSupabaseAdminClient } from "./supabase-admin";
+import { variantLabel } from "./variants";
+
+// target_price_cents: alert when a price at or below this appears; null = no target
+export type Watch = Pick<Tables<"watches">, "id" | "user_id" | "variant_id" | "target_price_cents" | "notify_on_sale">;
+
+export const WATCH_SELECT = "id,user_id,variant_id,target_price_cents,notify_on_sale";
+
+export type AlertKind = Enums<"alert_kind">;
+
+export type Notification = Pick<
+  Tables<"notifications">,
+  "id" | "variant_id" | "submission_id" | "kinds" | "message" | "created_at" | "read_at"
+>;
+
+export const NOTIFICATION_SELECT = "id,variant_id,submission_id,kinds,message,created_at,read_at";
+
+// Which alert kinds a just-approved submission triggers for one watch. Only the
+// current latest regular/sale price at that store counts (same rule as the
+// grid), so a stale row approved late never fires.
+export function matchWatch(watch: Watch, submission: Submission, isLatest: boolean): AlertKind[] {
+  if (!isLatest || watch.variant_id !== submission.variant_id) return [];
+
+  const isSale = submission.price_type === "sale";
+  if (isSale && !isSaleStillValid(submission)) return [];
+
+  const kinds: AlertKind[] = [];
+  if (watch.target_price_cents != null && submission.price_cents <= watch.target_price_cents) kinds.push("target");
+  if (watch.notify_on_sale && isSale) kinds.push("sale");
+  return kinds;
+}
+
+export function alertMessage(kinds: AlertKind[], submission: Submission, label: string, storeName: string, watch: Watch) {
+  const price = `${money(submission.price_cents)}${submission.price_type === "sale" ? " (on sale)" : ""}`;
+  const reason = kinds.includes("target")
+    ? `at or below your ${money(watch.target_price_cents!)} target`
+    : "now on sale";
+  return `${label} is ${price} at ${storeName} — ${reason}.`;
+}
+
+// Called after submissions are approved. Writes an inbox notification per
+// matching watch and emails it. Needs a service-role client: it writes rows
+// for other users and looks up their email addresses.
+export async function notifyWatchers(admin: DbClient, submissionIds: string[], sender: EmailSender) {
+  if (submissionIds.length === 0) return 0;
+
+  const { data: subs, error: subErr } = await admin
+    .from("price_submissions")
+    .select(SUBMISSION_SELECT)
+    .in("id", submissionIds)
+    .eq("is_approved", true);
+  if (subErr) throw subErr;
+
+  const { data: stores, error: storeErr } = await admin.from("stores").select("id,name");
+  if (storeErr) throw storeErr;
+  const storeName = new Map(stores.map((s) => [s.id, s.name]));
+
+  let sent = 0;
+
+  for (const variantId of new Set(subs.map((s) => s.variant_id))) {
+    const { data: watches, error: watchErr } = await admin.from("watches").select(WATCH_SELECT).eq("variant_id", variantId);
+    if (watchErr) throw watchErr;
+    if (watches.length === 0) continue;
+
+    const variant = await getVariant(admin, variantId);
+    const label = variant ? variantLabel(variant) : "A watched item";
+
+    const latest = buildLatestMap((await fetchApprovedHistory(admin, variantId)).reverse())[variantId] ?? {};
+
+    const rows = [];
+    for (const s of subs.filter((s) => s.variant_id === variantId)) {
+      const isLatest = latest[s.store_id]?.[s.price_type]?.id === s.id;
+      for (const watch of watches) {
+        const kinds = matchWatch(watch, s, isLatest);
+        if (kinds.length === 0) continue;
+        rows.push({
+          user_id: watch.user_id,
+          watch_id: watch.id,
+          variant_id: variantId,
+          submission_id: s.id,
+          kinds,
+          message: alertMessage(kinds, s, label, storeName.get(s.store_id) ?? "a store", watch),
+        });
+      }
+    }
+    if (rows.length === 0) continue;
+
+    // (watch_id, submission_id) is unique, so re-approving never double-notifies
+    const { data: inserted, error: insErr } = await admin
+      .from("notifications")
+      .upsert(rows, { onConflict: "watch_id,submission_id", ignoreDuplicates: true })
+      .select("id,user_id,message");
+    if (insErr) throw insErr;
+
+    for (const n of inserted) {
+      const { data: userData } = await admin.auth.admin.getUserById(n.user_id);
+      const email = userData?.user?.email;
+      if (!email) continue;
+
+      try {
+        await sender.send({ to: email, subject: "Kosher Prices alert", text: n.message });
+        await admin.from("notifications").update({ emailed_at: new Date().toISOString() }).eq("id", n.id);
+        sent++;
+      } catch (e) {
+        // The inbox copy is already saved; a failed email shouldn't lose it
+        console.error(e);
+      }
+    }
+  }
+
+  return sent;
+}
+
+// For approval paths: the alerts go out once the response has been sent
+// (next/server's after), so an approval neither waits for the emails nor
+// fails because of them. Must be called while handling a request.
+export function notifyApproved(submissionIds: string[]) {
+  after(async () => {
+    try {
+      await notifyWatchers(createSupabaseAdminClient(), submissionIds, getEmailSender());
+    } catch (e) {
+      console.error(e);
+    }
+  });
+}
@@ -0,0 +1,16 @@
+import type { User } from "@supabase/supabase-js";
+
+// Roles live in the user's app_metadata (only settable with the service key),
+// e.g. { "role": "moderator" }.
+export const MODERATOR_ROLE = "moderator";
+
+export function isModerator(user: User | null | undefined) {
+  return user?.app_metadata?.role === MODERATOR_ROLE;
+}
+
+export class ForbiddenError extends Error {
+  constructor(message = "Moderator role required") {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
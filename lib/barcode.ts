@@ -0,0 +1,24 @@
+// UPC/EAN handling. Codes are stored as digits only, with 12-digit UPC-A
+// widened to EAN-13 (a leading 0), since scanners report the same pack
+// either way depending on the symbology they detect.
+
+const LENGTHS = new Set([8, 12, 13, 14]);
+
+// GS1 check digit: weights 3,1,3,1… from the right, excluding the check digit
+function checkDigitOk(code: string) {
+  const digits = code.split("").map(Number);
+  const check = digits.pop()!;
+  const sum = digits.reverse().reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// Canonical form of a scanned or typed code, or null if it isn't a valid
+// EAN-8, UPC-A, EAN-13 or GTIN-14.
+export function normalizeBarcode(input: string): string | null {
+  const code = input.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(code) || !LENGTHS.has(code.length) || !checkDigitOk(code)) return null;
+  return code.length === 12 ? `0${code}` : code;
+}
+
+// Formats the BarcodeDetector is asked to look for
+export const BARCODE_FORMATS = ["ean_13", "ean_8", "upc_a"];
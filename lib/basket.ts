@@ -0,0 +1,112 @@
+import type { PriceRow, Store } from "./prices";
+
+export type ListItem = { variantId: string; qty: number };
+
+export type StoreBasket = {
+  storeId: string;
+  totalCents: number;
+  // Items this store has no price for (left out of totalCents)
+  missing: string[];
+};
+
+export type BasketSplit = {
+  storeIds: string[];
+  totalCents: number;
+  // variantId -> storeId it should be bought at
+  assignments: Record<string, string>;
+  // Items none of the chosen stores has a price for
+  uncovered: string[];
+};
+
+// Past this many combinations the search gets slow; the UI caps N well below.
+const MAX_COMBINATIONS = 50_000;
+
+function priceCents(row: PriceRow | undefined, storeId: string) {
+  const price = row?.cells[storeId]?.price;
+  return price == null ? null : Math.round(price * 100);
+}
+
+export function basketTotals(items: ListItem[], rows: PriceRow[], stores: Store[]): StoreBasket[] {
+  const byId = new Map(rows.map((r) => [r.variant.id, r]));
+
+  return stores.map((store) => {
+    let totalCents = 0;
+    const missing: string[] = [];
+
+    for (const item of items) {
+      const cents = priceCents(byId.get(item.variantId), store.id);
+      if (cents == null) missing.push(item.variantId);
+      else totalCents += cents * item.qty;
+    }
+
+    return { storeId: store.id, totalCents, missing };
+  });
+}
+
+function* combinations<T>(list: T[], size: number, start = 0, acc: T[] = []): Generator<T[]> {
+  if (acc.length === size) {
+    yield acc;
+    return;
+  }
+  for (let i = start; i <= list.length - (size - acc.length); i++) {
+    yield* combinations(list, size, i + 1, [...acc, list[i]]);
+  }
+}
+
+// Cheapest way to buy the list visiting at most `maxStores` stores. Prefers
+// splits that cover more items; among those, the lowest total wins (and then
+// fewer stores). Exhaustive over store combinations, which is fine for the
+// handful of stores we track.
+export function bestSplit(
+  items: ListItem[],
+  rows: PriceRow[],
+  stores: Store[],
+  maxStores: number
+): BasketSplit | null {
+  if (items.length === 0 || stores.length === 0) return null;
+
+  const byId = new Map(rows.map((r) => [r.variant.id, r]));
+  const storeIds = stores.map((s) => s.id);
+
+  let best: BasketSplit | null = null;
+  let tried = 0;
+
+  for (let size = 1; size <= Math.min(maxStores, storeIds.length); size++) {
+    for (const combo of combinations(storeIds, size)) {
+      if (++tried > MAX_COMBINATIONS) return best;
+
+      let totalCents = 0;
+      const assignments: Record<string, string> = {};
+      const uncovered: string[] = [];
+
+      for (const item of items) {
+        let cheapest: { storeId: string; cents: number } | null = null;
+        for (const storeId of combo) {
+          const cents = priceCents(byId.get(item.variantId), storeId);
+          if (cents != null && (!cheapest || cents < cheapest.cents)) cheapest = { storeId, cents };
+        }
+
+        if (!cheapest) {
+          uncovered.push(item.variantId);
+          continue;
+        }
+        assignments[item.variantId] = cheapest.storeId;
+        totalCents += cheapest.cents * item.qty;
+      }
+
+      // Drop stores that ended up with nothing to buy
+      const used = combo.filter((id) => Object.values(assignments).includes(id));
+
+      const better =
+        !best ||
+        uncovered.length < best.uncovered.length ||
+        (uncovered.length === best.uncovered.length &&
+          (totalCents < best.totalCents ||
+            (totalCents === best.totalCents && used.length < best.storeIds.length)));
+
+      if (better) best = { storeIds: used, totalCents, assignments, uncovered };
+    }
+  }
+
+  return best;
+}
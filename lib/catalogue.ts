@@ -0,0 +1,107 @@
+import { normalizeBarcode } from "./barcode";
+import type { Json } from "./database.types";
+import type { NewVariant } from "./data";
+import { blankToNull } from "./format";
+import { DIETARY_TYPES, normalizeHechshers } from "./kashrut";
+import { isHoliday } from "./seasons";
+import { SIZE_UNITS } from "./units";
+
+// Correcting catalogue entries after they're created (/moderate/edit), and
+// the change history kept for each entry.
+
+// The editable columns of a variant: everything /add-product sets
+export const VARIANT_EDIT_SELECT =
+  "product_id, brand_id, size_value, size_unit, flavour, notes, barcode, hechshers, dietary, chalav_yisrael, pas_yisroel, kosher_for_passover, holidays";
+
+// Same rules as /add-product. The barcode may be typed in any form.
+export function validateVariant(input: NewVariant): { variant: NewVariant; error: string | null } {
+  const barcode = blankToNull(input.barcode);
+
+  // Field by field, so extra properties (an id, say) never reach the update
+  const variant: NewVariant = {
+    product_id: input.product_id,
+    brand_id: input.brand_id,
+    size_value: input.size_value,
+    size_unit: input.size_value === null ? null : input.size_unit,
+    flavour: blankToNull(input.flavour),
+    notes: blankToNull(input.notes),
+    barcode: barcode ? normalizeBarcode(barcode) : null,
+    hechshers: normalizeHechshers(input.hechshers),
+    dietary: input.dietary && DIETARY_TYPES.includes(input.dietary) ? input.dietary : null,
+    chalav_yisrael: input.dietary === "dairy" && input.chalav_yisrael,
+    pas_yisroel: input.pas_yisroel,
+    kosher_for_passover: input.kosher_for_passover,
+    holidays: [...new Set(input.holidays.filter(isHoliday))],
+  };
+
+  if (!variant.product_id) return { variant, error: "Pick a product." };
+  if (!variant.brand_id) return { variant, error: "Pick a brand." };
+  if (variant.size_value !== null && !(Number.isFinite(variant.size_value) && variant.size_value > 0)) {
+    return { variant, error: "Size must be a positive number (or leave it blank)." };
+  }
+  if (variant.size_value !== null && !SIZE_UNITS.some((u) => u === variant.size_unit)) {
+    return { variant, error: "Please choose a unit." };
+  }
+  if (barcode && !variant.barcode) {
+    return { variant, error: "That barcode doesn’t look right. Check the digits under the bars." };
+  }
+
+  return { variant, error: null };
+}
+
+// One edit: { column: { from, to } } for each column that changed
+export type Changes = Record<string, { from: Json; to: Json }>;
+
+function same(a: Json, b: Json) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The columns of `after` that differ from `before`
+export function diffChanges<T extends Record<string, Json>>(before: T, after: Partial<T>): Changes {
+  const changes: Changes = {};
+  for (const [key, to] of Object.entries(after)) {
+    if (to === undefined || same(before[key], to)) continue;
+    changes[key] = { from: before[key] ?? null, to };
+  }
+  return changes;
+}
+
+export type CatalogueEdit = {
+  id: string;
+  changes: Changes;
+  edited_by: string | null;
+  edited_at: string;
+};
+
+// Column names as the editor labels them
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  category_id: "Category",
+  product_id: "Product",
+  brand_id: "Brand",
+  size_value: "Size",
+  size_unit: "Unit",
+  flavour: "Flavour",
+  notes: "Notes",
+  barcode: "Barcode",
+  hechshers: "Hechsher",
+  dietary: "Dairy / meat / pareve",
+  chalav_yisrael: "Chalav Yisrael",
+  pas_yisroel: "Pas Yisroel",
+  kosher_for_passover: "Kosher for Passover",
+  holidays: "Seasonal",
+  archived: "Archived",
+};
+
+export function fieldLabel(column: string) {
+  return FIELD_LABELS[column] ?? column;
+}
+
+// `names` turns product, brand and category ids back into names
+export function formatChangeValue(value: Json, names: Map<string, string> = new Map()) {
+  if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "string") return names.get(value) ?? value;
+  return String(value);
+}
@@ -0,0 +1,149 @@
+import type { Tables } from "./database.types";
+import { cheapestPrice, type PriceRow } from "./prices";
+import type { Variant } from "./variants";
+
+// Product categories form a tree ("Dairy" > "Cheese"). A product is filed
+// under one category, and its variants inherit it.
+
+export type Category = Pick<Tables<"categories">, "id" | "parent_id" | "name" | "sort_order">;
+
+export const CATEGORY_SELECT = "id,parent_id,name,sort_order";
+
+// Where products with no category are grouped ("Other")
+export const UNCATEGORISED = "none";
+
+// Every category in tree order: each parent, then its children, siblings by
+// sort_order then name. `depth` is 0 for top-level categories.
+export function categoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const children = new Map<string | null, Category[]>();
+  for (const c of categories) children.set(c.parent_id, [...(children.get(c.parent_id) ?? []), c]);
+
+  const out: { category: Category; depth: number }[] = [];
+  function visit(parentId: string | null, depth: number) {
+    const list = (children.get(parentId) ?? []).sort(
+      (a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+    );
+    for (const c of list) {
+      out.push({ category: c, depth });
+      visit(c.id, depth + 1);
+    }
+  }
+
+  visit(null, 0);
+  return out;
+}
+
+// id -> the category and its ancestors, top-level first
+export function categoryPaths(categories: Category[]): Map<string, Category[]> {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const paths = new Map<string, Category[]>();
+
+  for (const c of categories) {
+    const path: Category[] = [];
+    // A bad parent_id loop can't hang this: a path is never longer than the tree
+    for (let at: Category | undefined = c; at && path.length < categories.length; at = byId.get(at.parent_id ?? "")) {
+      path.unshift(at);
+    }
+    paths.set(c.id, path);
+  }
+
+  return paths;
+}
+
+// "Dairy › Cheese"
+export function categoryLabel(paths: Map<string, Category[]>, id: string | null) {
+  const path = id ? paths.get(id) : undefined;
+  return path ? path.map((c) => c.name).join(" › ") : "Other";
+}
+
+// The top-level category a variant is grouped under, or UNCATEGORISED
+export function topCategoryId(paths: Map<string, Category[]>, id: string | null) {
+  return (id ? paths.get(id)?.[0]?.id : undefined) ?? UNCATEGORISED;
+}
+
+// The categories a product can be filed under to be listed under
+// `categoryId`: it and every category below it. Null for UNCATEGORISED
+// (products with no category).
+export function categorySubtree(paths: Map<string, Category[]>, categoryId: string): string[] | null {
+  if (categoryId === UNCATEGORISED) return null;
+  return [...paths].filter(([, path]) => path.some((c) => c.id === categoryId)).map(([id]) => id);
+}
+
+// Sorts variants by category in tree order (uncategorised last)
+export function categoryOrder(categories: Category[]) {
+  const position = new Map(categoryTree(categories).map(({ category }, i) => [category.id, i]));
+  return (v: Variant) => (v.category_id ? (position.get(v.category_id) ?? position.size) : position.size);
+}
+
+// How one store compares across the items of a category. `index` is the
+// store's average price as a multiple of each item's lowest price (1.04 =
+// 4% above the cheapest, on average); `wins` counts items it's cheapest for.
+export type StoreStanding = { storeId: string; priced: number; wins: number; index: number };
+
+export type CategoryStats = {
+  // Items in the category (after filters) and how many of them have prices
+  items: number;
+  priced: number;
+  cheapestStoreId: string | null;
+  stores: StoreStanding[];
+};
+
+// A store has to price at least this share of the category's compared items
+// to be called cheapest overall, so one lucky price doesn't win it.
+const MIN_COVERAGE = 0.5;
+
+function standings(rows: PriceRow[]): CategoryStats {
+  const byStore = new Map<string, { priced: number; wins: number; ratioSum: number }>();
+  let compared = 0;
+
+  for (const row of rows) {
+    const lowest = cheapestPrice(row);
+    const priced = Object.entries(row.cells).filter(([, cell]) => cell.price != null);
+    // An item priced at one store says nothing about how stores compare
+    if (lowest == null || priced.length < 2) continue;
+
+    compared++;
+    for (const [storeId, cell] of priced) {
+      const s = byStore.get(storeId) ?? { priced: 0, wins: 0, ratioSum: 0 };
+      s.priced++;
+      s.ratioSum += cell.price! / lowest;
+      if (storeId === row.cheapestStoreId) s.wins++;
+      byStore.set(storeId, s);
+    }
+  }
+
+  const stores = [...byStore.entries()]
+    .map(([storeId, s]) => ({
+      storeId,
+      priced: s.priced,
+      wins: s.wins,
+      index: Math.round((s.ratioSum / s.priced) * 1000) / 1000,
+    }))
+    .sort((a, b) => a.index - b.index || b.wins - a.wins);
+
+  const cheapest = stores.find((s) => s.priced >= compared * MIN_COVERAGE);
+  return {
+    items: rows.length,
+    priced: rows.filter((row) => row.cheapestStoreId != null).length,
+    cheapestStoreId: cheapest?.storeId ?? null,
+    stores,
+  };
+}
+
+// Stats for every category with items among `rows`, counting the items of
+// its subcategories too (so "Dairy" covers "Cheese"), keyed by category id
+// (UNCATEGORISED for products with no category).
+export function categoryStats(rows: PriceRow[], paths: Map<string, Category[]>): Record<string, CategoryStats> {
+  const groups = new Map<string, PriceRow[]>();
+  for (const row of rows) {
+    const id = row.variant.category_id;
+    const keys = id && paths.has(id) ? paths.get(id)!.map((c) => c.id) : [UNCATEGORISED];
+    for (const key of keys) {
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+  }
+
+  return Object.fromEntries([...groups.entries()].map(([id, group]) => [id, standings(group)]));
+}
@@ -0,0 +1,584 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "./database.types";
+import { fetchAll } from "./fetch-all";
+import { assessSubmission, HISTORY_DAYS, type OutlierAssessment, type PricePoint } from "./outliers";
+import type { Kashrut } from "./kashrut";
+import { VARIANT_EDIT_SELECT, type CatalogueEdit, type Changes } from "./catalogue";
+import { CATEGORY_SELECT, type Category } from "./categories";
+import { buildLatestMap, SUBMISSION_SELECT, type PriceType, type Store, type Submission } from "./prices";
+import { SEASON_SELECT, type DateRange, type Holiday, type Season } from "./seasons";
+import { parseHours, STORE_DETAILS_SELECT, type StoreDetails } from "./stores";
+import { isSubmitterId } from "./submitter";
+import {
+  mapVariantRow,
+  VARIANT_BY_PRODUCT_SELECT,
+  VARIANT_SELECT,
+  variantLabel,
+  variantSortKey,
+  type Variant,
+} from "./variants";
+
+// Typed repository over the Supabase schema. Pages, routes and actions go
+// through these functions instead of building queries themselves, so the
+// select strings and the row types live in one place.
+
+export type DbClient = SupabaseClient<Database>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Active stores only, unless listing history (which keeps retired stores' prices)
+export async function listStores(
+  client: DbClient,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<Store[]> {
+  let q = client.from("stores").select("id,name,sort_order,latitude,longitude");
+  if (!includeInactive) q = q.eq("is_active", true);
+
+  const { data, error } = await q.order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+// Every store with its details, for the stores admin
+export async function listStoreDetails(client: DbClient): Promise<StoreDetails[]> {
+  const { data, error } = await client
+    .from("stores")
+    .select(STORE_DETAILS_SELECT)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return data.map((s) => ({ ...s, hours: parseHours(s.hours) }));
+}
+
+// Narrows listVariants: `ids` to those variants, `categoryIds` to products
+// filed under one of those categories (null: products with no category).
+export type VariantFilter = { ids?: string[]; categoryIds?: string[] | null };
+
+// Every approved variant still sold, sorted product → brand → size → flavour.
+// Pending, rejected, duplicate and archived entries stay out of the grid,
+// search and /add.
+export async function listVariants(client: DbClient, { ids, categoryIds }: VariantFilter = {}): Promise<Variant[]> {
+  const rows = await fetchAll((from, to) => {
+    let q = client
+      .from("product_variants")
+      .select(VARIANT_BY_PRODUCT_SELECT)
+      .eq("status", "approved")
+      .is("archived_at", null);
+    if (ids) q = q.in("id", ids);
+    if (categoryIds === null) q = q.is("products.category_id", null);
+    else if (categoryIds) q = q.in("products.category_id", categoryIds);
+    return q.order("id").range(from, to);
+  });
+
+  return rows.map(mapVariantRow).sort((a, b) => variantSortKey(a).localeCompare(variantSortKey(b)));
+}
+
+// Any variant, reviewed or not: history pages and alerts look them up by id
+export async function getVariant(client: DbClient, id: string): Promise<Variant | null> {
+  const { data, error } = await client.from("product_variants").select(VARIANT_SELECT).eq("id", id).maybeSingle();
+
+  if (error) throw error;
+  return data ? mapVariantRow(data) : null;
+}
+
+// A variant that can still be priced: approved or awaiting review, and not
+// archived (the same rule submitPrice enforces). Null otherwise.
+export async function getPriceableVariant(client: DbClient, id: string): Promise<Variant | null> {
+  const { data, error } = await client
+    .from("product_variants")
+    .select(VARIANT_SELECT)
+    .eq("id", id)
+    .in("status", ["approved", "pending"])
+    .is("archived_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapVariantRow(data) : null;
+}
+
+export async function listCategories(client: DbClient): Promise<Category[]> {
+  const { data, error } = await client.from("categories").select(CATEGORY_SELECT);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listSeasons(client: DbClient): Promise<Season[]> {
+  const { data, error } = await client.from("seasons").select(SEASON_SELECT).order("starts_on", { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+export type Brand = Pick<Tables<"brands">, "id" | "name">;
+export type Product = Pick<Tables<"products">, "id" | "name" | "category_id">;
+
+// Approved brands only
+export async function listBrands(client: DbClient): Promise<Brand[]> {
+  const { data, error } = await client
+    .from("brands")
+    .select("id,name")
+    .eq("status", "approved")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listProducts(client: DbClient): Promise<Product[]> {
+  const { data, error } = await client
+    .from("products")
+    .select("id,name,category_id")
+    .eq("status", "approved")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+// A LIKE pattern matching `name` literally (used with ilike to ignore case)
+function likeLiteral(name: string) {
+  return name.replace(/[\\%_]/g, "\\$&");
+}
+
+// Look up by name first: RLS lets anyone add a product or brand but not
+// update one, so an upsert on the unique name would be refused. The lookup
+// ignores case ("Grape juice" is "Grape Juice"), and a name a moderator
+// merged into another resolves to the survivor.
+// `categoryId` only files a new product; an existing one keeps its category.
+export async function getOrCreateProduct(
+  client: DbClient,
+  name: string,
+  categoryId: string | null = null
+): Promise<Product> {
+  const { data: existing, error: selErr } = await client
+    .from("products")
+    .select("id,name,category_id,duplicate_of")
+    .ilike("name", likeLiteral(name))
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+
+  if (selErr) throw selErr;
+  if (existing?.duplicate_of) {
+    const { data: original, error } = await client
+      .from("products")
+      .select("id,name,category_id")
+      .eq("id", existing.duplicate_of)
+      .single();
+
+    if (error) throw error;
+    return original;
+  }
+  if (existing) return { id: existing.id, name: existing.name, category_id: existing.category_id };
+
+  const { data, error } = await client
+    .from("products")
+    .insert({ name, category_id: categoryId })
+    .select("id,name,category_id")
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getOrCreateBrand(client: DbClient, name: string): Promise<Brand> {
+  const { data: existing, error: selErr } = await client
+    .from("brands")
+    .select("id,name,duplicate_of")
+    .ilike("name", likeLiteral(name))
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+
+  if (selErr) throw selErr;
+  if (existing?.duplicate_of) {
+    const { data: original, error } = await client
+      .from("brands")
+      .select("id,name")
+      .eq("id", existing.duplicate_of)
+      .single();
+
+    if (error) throw error;
+    return original;
+  }
+  if (existing) return { id: existing.id, name: existing.name };
+
+  const { data, error } = await client.from("brands").insert({ name }).select("id,name").single();
+
+  if (error) throw error;
+  return data;
+}
+
+export type NewVariant = Kashrut & {
+  product_id: string;
+  brand_id: string;
+  size_value: number | null;
+  size_unit: string | null;
+  flavour: string | null;
+  notes: string | null;
+  // Normalised with normalizeBarcode
+  barcode: string | null;
+  holidays: Holiday[];
+};
+
+// The columns of product_variants_identity_key
+export type VariantIdentity = Pick<NewVariant, "product_id" | "brand_id" | "size_value" | "size_unit" | "flavour">;
+
+export async function findVariantByIdentity(client: DbClient, identity: VariantIdentity) {
+  // `is` only matches null; a set size/flavour needs `eq`
+  let q = client
+    .from("product_variants")
+    .select("id,duplicate_of")
+    .eq("product_id", identity.product_id)
+    .eq("brand_id", identity.brand_id);
+  q = identity.size_value === null ? q.is("size_value", null) : q.eq("size_value", identity.size_value);
+  q = identity.size_unit === null ? q.is("size_unit", null) : q.eq("size_unit", identity.size_unit);
+  q = identity.flavour === null ? q.is("flavour", null) : q.eq("flavour", identity.flavour);
+
+  const { data, error } = await q.maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Returns the id of the new variant, or of the identical one that already
+// exists (or the variant it was marked a duplicate of). New variants start
+// pending.
+export async function createVariant(client: DbClient, args: NewVariant): Promise<string> {
+  const { data: inserted, error: insErr } = await client
+    .from("product_variants")
+    .insert(args)
+    .select("id")
+    .single();
+
+  if (!insErr) return inserted.id;
+  if (insErr.message.includes("product_variants_barcode_key")) {
+    throw new Error("That barcode already belongs to another product.");
+  }
+
+  const existing = await findVariantByIdentity(client, args).catch(() => null);
+
+  if (!existing) throw insErr;
+  return existing.duplicate_of ?? existing.id;
+}
+
+// Pending variants match too, so a scanned pack isn't added twice. Rejected
+// and duplicate variants have given up their barcode; archived ones keep it
+// but can't be priced.
+export async function findVariantByBarcode(client: DbClient, barcode: string): Promise<Variant | null> {
+  const { data, error } = await client
+    .from("product_variants")
+    .select(VARIANT_SELECT)
+    .eq("barcode", barcode)
+    .is("archived_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapVariantRow(data) : null;
+}
+
+// Approved submissions, newest-first. `within` limits it to submissions made
+// in that range (e.g. a season).
+export async function fetchApprovedSubmissions(client: DbClient, within?: DateRange): Promise<Submission[]> {
+  return fetchAll((from, to) => {
+    let q = client.from("price_submissions").select(SUBMISSION_SELECT).eq("is_approved", true);
+    if (within) q = q.gte("created_at", within.from).lt("created_at", within.to);
+    return q.order("created_at", { ascending: false }).order("id").range(from, to);
+  });
+}
+
+// Latest visible regular + sale price per (variant, store), picked in SQL
+// (public.latest_prices) so only those rows come back. Public views only see
+// approved rows; the one exception is the submitter, who also sees their own
+// rows still awaiting review (flagged `pending` on the resolved price cell).
+// `variantIds` limits it to those variants. Needs the service role.
+export async function latestPrices(
+  client: DbClient,
+  submitterId: string | null,
+  within?: DateRange,
+  variantIds?: string[]
+) {
+  const latest = await fetchAll((from, to) =>
+    client
+      .rpc("latest_prices", {
+        submitter: isSubmitterId(submitterId) ? submitterId : undefined,
+        created_from: within?.from,
+        created_before: within?.to,
+        variant_ids: variantIds,
+      })
+      .order("id")
+      .range(from, to)
+  );
+  return buildLatestMap(latest);
+}
+
+// Recent approved prices for one variant at every store, newest-first.
+export async function fetchPriceHistory(client: DbClient, variantId: string): Promise<PricePoint[]> {
+  const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString();
+
+  return fetchAll((from, to) =>
+    client
+      .from("price_submissions")
+      .select("store_id,price_cents,price_type,created_at")
+      .eq("variant_id", variantId)
+      .eq("is_approved", true)
+      .gte("created_at", since)
+      .order("created_at", { ascending: false })
+      .range(from, to)
+  );
+}
+
+// Full approved history for one variant, oldest-first (for charts/tables).
+export async function fetchApprovedHistory(client: DbClient, variantId: string): Promise<Submission[]> {
+  return fetchAll((from, to) =>
+    client
+      .from("price_submissions")
+      .select(SUBMISSION_SELECT)
+      .eq("variant_id", variantId)
+      .eq("is_approved", true)
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(from, to)
+  );
+}
+
+export type NewSubmission = {
+  store_id: string;
+  variant_id: string;
+  price_cents: number;
+  price_type: PriceType;
+  sale_end_date: string | null;
+};
+
+// What a new price is for, as the server checks it before writing: the
+// variant's review state and whether the store still takes prices. Null
+// fields mean the variant or store doesn't exist.
+export type SubmissionTarget = {
+  variant: Pick<Tables<"product_variants">, "status" | "archived_at"> | null;
+  store: Pick<Tables<"stores">, "is_active"> | null;
+};
+
+export async function submissionTarget(client: DbClient, input: NewSubmission): Promise<SubmissionTarget> {
+  const [variant, store] = await Promise.all([
+    client.from("product_variants").select("status, archived_at").eq("id", input.variant_id).maybeSingle(),
+    client.from("stores").select("is_active").eq("id", input.store_id).maybeSingle(),
+  ]);
+
+  if (variant.error) throw variant.error;
+  if (store.error) throw store.error;
+  return { variant: variant.data, store: store.data };
+}
+
+// Score a new price against the variant's recent history.
+export async function assessPrice(client: DbClient, input: NewSubmission) {
+  return assessSubmission(input, await fetchPriceHistory(client, input.variant_id));
+}
+
+// A new price with the server's assessment of it
+export type ScoredSubmission = { input: NewSubmission; assessment: OutlierAssessment };
+
+// New prices start pending unless the outlier check is confident enough to
+// auto-approve them. Auto-approvals are reviewed with no moderator (reviewed_by
+// stays null); flagged rows carry their reasons into the moderation queue.
+//
+// Every price and its submitter are written in one transaction
+// (public.insert_price_submissions): all of them or, on an error, none. Only
+// the service role may write scores, approved rows and submitters, so `admin`
+// must be the service-role client. Returns the new ids in order.
+export async function insertSubmissions(
+  admin: DbClient,
+  submissions: ScoredSubmission[],
+  submitterId: string | null
+): Promise<string[]> {
+  const rows = submissions.map(({ input, assessment }) => ({
+    ...input,
+    id: crypto.randomUUID(),
+    is_approved: assessment.autoApprove,
+    outlier_confidence: assessment.confidence,
+    outlier_flags: assessment.flags.length > 0 ? assessment.flags : null,
+  }));
+
+  const { error } = await admin.rpc("insert_price_submissions", {
+    submissions: rows,
+    submitter: isSubmitterId(submitterId) ? submitterId : undefined,
+  });
+
+  if (error) throw error;
+  return rows.map((r) => r.id);
+}
+
+export type PendingSubmission = {
+  id: string;
+  created_at: string;
+  price_cents: number;
+  price_type: PriceType;
+  sale_end_date: string | null;
+  submitter_id: string | null;
+  outlier_flags: string[] | null;
+  store_name: string;
+  product_label: string;
+  // The variant itself is new and still in the catalogue queue
+  variant_pending: boolean;
+};
+
+export type PendingFilters = {
+  storeId?: string;
+  priceType?: PriceType;
+  submitterId?: string;
+  newerThanDays?: number;
+  olderThanDays?: number;
+  flaggedOnly?: boolean;
+  oldestFirst?: boolean;
+};
+
+// The moderation queue: unreviewed, unapproved submissions.
+export async function pendingSubmissions(
+  client: DbClient,
+  filters: PendingFilters,
+  page: number,
+  pageSize: number
+): Promise<{ items: PendingSubmission[]; total: number }> {
+  let q = client
+    .from("price_submissions")
+    .select(
+      `id, created_at, price_cents, price_type, sale_end_date, outlier_flags,
+       stores(name), product_variants(${VARIANT_SELECT}, status), submission_submitters(submitter_id)`,
+      { count: "exact" }
+    )
+    .eq("is_approved", false)
+    .is("reviewed_at", null);
+
+  if (filters.storeId) q = q.eq("store_id", filters.storeId);
+  if (filters.priceType) q = q.eq("price_type", filters.priceType);
+  if (filters.submitterId) {
+    // Filtering on the embedded row alone would just blank it out; the
+    // not-null check drops the rows it doesn't match
+    q = q
+      .eq("submission_submitters.submitter_id", filters.submitterId)
+      .not("submission_submitters", "is", null);
+  }
+  if (filters.flaggedOnly) q = q.not("outlier_flags", "is", null);
+  if (filters.newerThanDays != null) {
+    q = q.gte("created_at", new Date(Date.now() - filters.newerThanDays * DAY_MS).toISOString());
+  }
+  if (filters.olderThanDays != null) {
+    q = q.lt("created_at", new Date(Date.now() - filters.olderThanDays * DAY_MS).toISOString());
+  }
+
+  const from = (page - 1) * pageSize;
+  const { data, error, count } = await q
+    .order("created_at", { ascending: !!filters.oldestFirst })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  const items = data.map(({ stores, product_variants, submission_submitters, ...r }) => ({
+    ...r,
+    submitter_id: submission_submitters?.submitter_id ?? null,
+    store_name: stores?.name ?? "",
+    product_label: product_variants ? variantLabel(mapVariantRow(product_variants)) : "",
+    variant_pending: product_variants?.status === "pending",
+  }));
+
+  return { items, total: count ?? items.length };
+}
+
+export type PendingName = { id: string; name: string; created_at: string };
+
+// `new_product` / `new_brand`: approving the variant also approves those.
+export type PendingVariant = Variant & {
+  created_at: string;
+  notes: string | null;
+  barcode: string | null;
+  new_product: boolean;
+  new_brand: boolean;
+};
+
+export type PendingCatalogue = { brands: PendingName[]; products: PendingName[]; variants: PendingVariant[] };
+
+// The catalogue queue, oldest first
+export async function pendingCatalogue(client: DbClient): Promise<PendingCatalogue> {
+  const [brands, products, variants] = await Promise.all([
+    client.from("brands").select("id,name,created_at").eq("status", "pending").order("created_at"),
+    client.from("products").select("id,name,created_at").eq("status", "pending").order("created_at"),
+    client
+      .from("product_variants")
+      .select(
+        `id, created_at, notes, barcode, size_value, size_unit, flavour, hechshers, dietary, chalav_yisrael,
+         pas_yisroel, kosher_for_passover, holidays, products(name, category_id, status), brands(name, status)`
+      )
+      .eq("status", "pending")
+      .order("created_at"),
+  ]);
+
+  if (brands.error) throw brands.error;
+  if (products.error) throw products.error;
+  if (variants.error) throw variants.error;
+
+  return {
+    brands: brands.data,
+    products: products.data,
+    variants: variants.data.map((v) => ({
+      ...mapVariantRow(v),
+      created_at: v.created_at,
+      notes: v.notes,
+      barcode: v.barcode,
+      new_product: v.products?.status === "pending",
+      new_brand: v.brands?.status === "pending",
+    })),
+  };
+}
+
+export type CatalogueMerge = Tables<"catalogue_merges">;
+
+// The merge log, newest first (moderators only)
+export async function listMerges(client: DbClient, limit: number): Promise<CatalogueMerge[]> {
+  const { data, error } = await client
+    .from("catalogue_merges")
+    .select("id,kind,from_id,into_id,from_label,into_label,moved_variants,moved_submissions,merged_by,merged_at")
+    .order("merged_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+}
+
+// Approved variants including archived ones, for the catalogue editor
+export type CatalogueVariant = Variant & { archived_at: string | null };
+
+export async function listCatalogueVariants(client: DbClient): Promise<CatalogueVariant[]> {
+  const rows = await fetchAll((from, to) =>
+    client
+      .from("product_variants")
+      .select(`${VARIANT_SELECT}, archived_at`)
+      .eq("status", "approved")
+      .order("id")
+      .range(from, to)
+  );
+
+  return rows
+    .map((v) => ({ ...mapVariantRow(v), archived_at: v.archived_at }))
+    .sort((a, b) => variantSortKey(a).localeCompare(variantSortKey(b)));
+}
+
+// A variant's editable columns, as /add-product would have set them
+export async function getVariantForEditing(client: DbClient, id: string): Promise<NewVariant | null> {
+  const { data, error } = await client.from("product_variants").select(VARIANT_EDIT_SELECT).eq("id", id).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// An entry's edit history, newest first (moderators only)
+export async function catalogueHistory(client: DbClient, entryId: string): Promise<CatalogueEdit[]> {
+  const { data, error } = await client
+    .from("catalogue_edits")
+    .select("id,changes,edited_by,edited_at")
+    .eq("entry_id", entryId)
+    .order("edited_at", { ascending: false });
+
+  if (error) throw error;
+  return data.map((e) => ({ ...e, changes: e.changes as Changes }));
+}
@@ -0,0 +1,618 @@
+// Schema types for the Supabase `public` schema, in the shape produced by
+// `supabase gen types typescript`. Keep in sync with the database: a renamed
+// or dropped column should fail the type-check, not production.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      brands: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+          status: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "brands_duplicate_of_fkey";
+            columns: ["duplicate_of"];
+            isOneToOne: false;
+            referencedRelation: "brands";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      products: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+          status: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          category_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          category_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          category_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "products_duplicate_of_fkey";
+            columns: ["duplicate_of"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "products_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      stores: {
+        Row: {
+          id: string;
+          name: string;
+          sort_order: number;
+          address: string | null;
+          neighbourhood: string | null;
+          website: string | null;
+          hours: Json;
+          closed_shabbos: boolean;
+          closed_yom_tov: boolean;
+          hours_note: string | null;
+          is_active: boolean;
+          latitude: number | null;
+          longitude: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          sort_order?: number;
+          address?: string | null;
+          neighbourhood?: string | null;
+          website?: string | null;
+          hours?: Json;
+          closed_shabbos?: boolean;
+          closed_yom_tov?: boolean;
+          hours_note?: string | null;
+          is_active?: boolean;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          sort_order?: number;
+          address?: string | null;
+          neighbourhood?: string | null;
+          website?: string | null;
+          hours?: Json;
+          closed_shabbos?: boolean;
+          closed_yom_tov?: boolean;
+          hours_note?: string | null;
+          is_active?: boolean;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      product_variants: {
+        Row: {
+          id: string;
+          product_id: string;
+          brand_id: string;
+          size_value: number | null;
+          size_unit: string | null;
+          flavour: string | null;
+          notes: string | null;
+          barcode: string | null;
+          hechshers: string[];
+          dietary: Database["public"]["Enums"]["dietary_type"] | null;
+          chalav_yisrael: boolean;
+          pas_yisroel: boolean;
+          kosher_for_passover: boolean;
+          holidays: Database["public"]["Enums"]["holiday"][];
+          created_at: string;
+          status: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          archived_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          brand_id: string;
+          size_value?: number | null;
+          size_unit?: string | null;
+          flavour?: string | null;
+          notes?: string | null;
+          barcode?: string | null;
+          hechshers?: string[];
+          dietary?: Database["public"]["Enums"]["dietary_type"] | null;
+          chalav_yisrael?: boolean;
+          pas_yisroel?: boolean;
+          kosher_for_passover?: boolean;
+          holidays?: Database["public"]["Enums"]["holiday"][];
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          archived_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          brand_id?: string;
+          size_value?: number | null;
+          size_unit?: string | null;
+          flavour?: string | null;
+          notes?: string | null;
+          barcode?: string | null;
+          hechshers?: string[];
+          dietary?: Database["public"]["Enums"]["dietary_type"] | null;
+          chalav_yisrael?: boolean;
+          pas_yisroel?: boolean;
+          kosher_for_passover?: boolean;
+          holidays?: Database["public"]["Enums"]["holiday"][];
+          created_at?: string;
+          status?: Database["public"]["Enums"]["catalogue_status"];
+          duplicate_of?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          archived_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_brand_id_fkey";
+            columns: ["brand_id"];
+            isOneToOne: false;
+            referencedRelation: "brands";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "product_variants_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "product_variants_duplicate_of_fkey";
+            columns: ["duplicate_of"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      price_submissions: {
+        Row: {
+          id: string;
+          store_id: string;
+          variant_id: string;
+          price_cents: number;
+          price_type: Database["public"]["Enums"]["price_type"];
+          sale_end_date: string | null;
+          created_at: string;
+          is_approved: boolean;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          rejection_reason: Database["public"]["Enums"]["rejection_reason"] | null;
+          original_price_cents: number | null;
+          outlier_confidence: number | null;
+          outlier_flags: string[] | null;
+        };
+        Insert: {
+          id?: string;
+          store_id: string;
+          variant_id: string;
+          price_cents: number;
+          price_type: Database["public"]["Enums"]["price_type"];
+          sale_end_date?: string | null;
+          created_at?: string;
+          is_approved?: boolean;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          rejection_reason?: Database["public"]["Enums"]["rejection_reason"] | null;
+          original_price_cents?: number | null;
+          outlier_confidence?: number | null;
+          outlier_flags?: string[] | null;
+        };
+        Update: {
+          id?: string;
+          store_id?: string;
+          variant_id?: string;
+          price_cents?: number;
+          price_type?: Database["public"]["Enums"]["price_type"];
+          sale_end_date?: string | null;
+          created_at?: string;
+          is_approved?: boolean;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          rejection_reason?: Database["public"]["Enums"]["rejection_reason"] | null;
+          original_price_cents?: number | null;
+          outlier_confidence?: number | null;
+          outlier_flags?: string[] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "price_submissions_store_id_fkey";
+            columns: ["store_id"];
+            isOneToOne: false;
+            referencedRelation: "stores";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "price_submissions_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      submission_submitters: {
+        Row: {
+          submission_id: string;
+          submitter_id: string;
+        };
+        Insert: {
+          submission_id: string;
+          submitter_id: string;
+        };
+        Update: {
+          submission_id?: string;
+          submitter_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "submission_submitters_submission_id_fkey";
+            columns: ["submission_id"];
+            isOneToOne: true;
+            referencedRelation: "price_submissions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      watches: {
+        Row: {
+          id: string;
+          user_id: string;
+          variant_id: string;
+          target_price_cents: number | null;
+          notify_on_sale: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          variant_id: string;
+          target_price_cents?: number | null;
+          notify_on_sale?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          variant_id?: string;
+          target_price_cents?: number | null;
+          notify_on_sale?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "watches_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          watch_id: string;
+          variant_id: string;
+          submission_id: string;
+          kinds: Database["public"]["Enums"]["alert_kind"][];
+          message: string;
+          created_at: string;
+          read_at: string | null;
+          emailed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          watch_id: string;
+          variant_id: string;
+          submission_id: string;
+          kinds: Database["public"]["Enums"]["alert_kind"][];
+          message: string;
+          created_at?: string;
+          read_at?: string | null;
+          emailed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          watch_id?: string;
+          variant_id?: string;
+          submission_id?: string;
+          kinds?: Database["public"]["Enums"]["alert_kind"][];
+          message?: string;
+          created_at?: string;
+          read_at?: string | null;
+          emailed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_watch_id_fkey";
+            columns: ["watch_id"];
+            isOneToOne: false;
+            referencedRelation: "watches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_submission_id_fkey";
+            columns: ["submission_id"];
+            isOneToOne: false;
+            referencedRelation: "price_submissions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      categories: {
+        Row: {
+          id: string;
+          parent_id: string | null;
+          name: string;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          parent_id?: string | null;
+          name: string;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          parent_id?: string | null;
+          name?: string;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      catalogue_edits: {
+        Row: {
+          id: string;
+          kind: Database["public"]["Enums"]["catalogue_kind"];
+          entry_id: string;
+          changes: Json;
+          edited_by: string | null;
+          edited_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: Database["public"]["Enums"]["catalogue_kind"];
+          entry_id: string;
+          changes: Json;
+          edited_by?: string | null;
+          edited_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: Database["public"]["Enums"]["catalogue_kind"];
+          entry_id?: string;
+          changes?: Json;
+          edited_by?: string | null;
+          edited_at?: string;
+        };
+        Relationships: [];
+      };
+      catalogue_merges: {
+        Row: {
+          id: string;
+          kind: Database["public"]["Enums"]["catalogue_kind"];
+          from_id: string;
+          into_id: string;
+          from_label: string;
+          into_label: string;
+          moved_variants: number;
+          moved_submissions: number;
+          merged_by: string | null;
+          merged_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: Database["public"]["Enums"]["catalogue_kind"];
+          from_id: string;
+          into_id: string;
+          from_label: string;
+          into_label: string;
+          moved_variants?: number;
+          moved_submissions?: number;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: Database["public"]["Enums"]["catalogue_kind"];
+          from_id?: string;
+          into_id?: string;
+          from_label?: string;
+          into_label?: string;
+          moved_variants?: number;
+          moved_submissions?: number;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Relationships: [];
+      };
+      seasons: {
+        Row: {
+          id: string;
+          name: string;
+          holiday: Database["public"]["Enums"]["holiday"];
+          starts_on: string;
+          ends_on: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          holiday: Database["public"]["Enums"]["holiday"];
+          starts_on: string;
+          ends_on: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          holiday?: Database["public"]["Enums"]["holiday"];
+          starts_on?: string;
+          ends_on?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      edit_catalogue_entry: {
+        Args: {
+          entry_kind: Database["public"]["Enums"]["catalogue_kind"];
+          entry_id: string;
+          patch: Json;
+          changes: Json;
+        };
+        Returns: undefined;
+      };
+      insert_price_submissions: {
+        Args: {
+          submissions: Json;
+          submitter?: string;
+        };
+        Returns: undefined;
+      };
+      merge_catalogue_entries: {
+        Args: {
+          entry_kind: Database["public"]["Enums"]["catalogue_kind"];
+          entry_id: string;
+          survivor_id: string;
+          entry_label: string;
+          survivor_label: string;
+        };
+        Returns: undefined;
+      };
+      latest_prices: {
+        Args: {
+          submitter?: string;
+          created_from?: string;
+          created_before?: string;
+          variant_ids?: string[];
+        };
+        Returns: {
+          id: string;
+          store_id: string;
+          variant_id: string;
+          price_cents: number;
+          price_type: Database["public"]["Enums"]["price_type"];
+          sale_end_date: string | null;
+          created_at: string;
+          is_approved: boolean;
+        }[];
+      };
+    };
+    Enums: {
+      alert_kind: "target" | "sale";
+      catalogue_kind: "brand" | "product" | "variant";
+      catalogue_status: "pending" | "approved" | "rejected" | "duplicate";
+      dietary_type: "dairy" | "meat" | "pareve";
+      holiday: "pesach" | "shavuot" | "rosh_hashanah" | "sukkot" | "chanukah" | "purim";
+      price_type: "regular" | "sale";
+      rejection_reason: "wrong_store" | "wrong_variant" | "typo" | "spam";
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"];
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"];
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"];
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T];
@@ -0,0 +1,122 @@
+import { normalizeText, wordSimilarity } from "./search";
+import { toBaseQuantity } from "./units";
+import type { Variant } from "./variants";
+
+// Near-duplicate detection for the catalogue: the same thing entered twice
+// with different case, spacing, spelling or units ("Grape juice" and
+// "Grape Juice ", "1500 ml" and "1.5 L", "Concord" and "concord").
+
+// Names at least this alike are treated as the same name
+export const SIMILAR_NAME = 0.8;
+
+// Sizes within this fraction of each other are the same size (64 oz ≈ 1.81 kg)
+const SIZE_TOLERANCE = 0.005;
+
+function nameWords(name: string) {
+  return normalizeText(name).split(" ").filter(Boolean);
+}
+
+// In [0, 1]. Every word of each name is scored against its best match in the
+// other, so an extra word ("Kedem" / "Kedem Winery") counts against it.
+export function nameSimilarity(a: string, b: string) {
+  const wa = nameWords(a);
+  const wb = nameWords(b);
+  if (wa.length === 0 || wb.length === 0) return wa.length === wb.length ? 1 : 0;
+
+  const side = (x: string[], y: string[]) =>
+    x.reduce((sum, w) => sum + Math.max(...y.map((o) => wordSimilarity(w, o))), 0) / x.length;
+  return Math.min(side(wa, wb), side(wb, wa));
+}
+
+// What makes a variant itself; a candidate from /add-product has no id yet
+export type VariantFields = Pick<Variant, "product_name" | "brand_name" | "size_value" | "size_unit" | "flavour">;
+
+// Same amount in any unit of the same dimension, or else the same value and unit
+export function sameSize(a: VariantFields, b: VariantFields) {
+  const qa = toBaseQuantity(a.size_value, a.size_unit);
+  const qb = toBaseQuantity(b.size_value, b.size_unit);
+  if (qa && qb) {
+    return qa.dimension === qb.dimension && Math.abs(qa.amount - qb.amount) <= SIZE_TOLERANCE * Math.max(qa.amount, qb.amount);
+  }
+  return a.size_value === b.size_value && a.size_unit === b.size_unit;
+}
+
+// Score in [SIMILAR_NAME, 1], or null if they aren't the same item
+export function variantSimilarity(a: VariantFields, b: VariantFields) {
+  if (!sameSize(a, b)) return null;
+
+  const scores = [
+    nameSimilarity(a.product_name, b.product_name),
+    nameSimilarity(a.brand_name, b.brand_name),
+    nameSimilarity(a.flavour ?? "", b.flavour ?? ""),
+  ];
+  if (scores.some((s) => s < SIMILAR_NAME)) return null;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+// Catalogue variants that look like `candidate`, most alike first
+export function findSimilarVariants(candidate: VariantFields & { id?: string }, variants: Variant[]) {
+  return variants
+    .filter((v) => v.id !== candidate.id)
+    .map((v) => ({ variant: v, score: variantSimilarity(candidate, v) }))
+    .filter((m): m is { variant: Variant; score: number } => m.score != null)
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.variant);
+}
+
+export type DuplicatePair<T> = { a: T; b: T; score: number };
+
+function byScore<T>(pairs: DuplicatePair<T>[]) {
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// Every pair of variants that look like the same item. Only variants of about
+// the same size can match, so they're compared within a sliding size window
+// rather than all against all.
+export function findDuplicateVariants(variants: Variant[]): DuplicatePair<Variant>[] {
+  const sized = new Map<string, { v: Variant; amount: number }[]>();
+  const other = new Map<string, Variant[]>();
+
+  for (const v of variants) {
+    const q = toBaseQuantity(v.size_value, v.size_unit);
+    if (q) sized.set(q.dimension, [...(sized.get(q.dimension) ?? []), { v, amount: q.amount }]);
+    else {
+      const key = `${v.size_value ?? ""}|${v.size_unit ?? ""}`;
+      other.set(key, [...(other.get(key) ?? []), v]);
+    }
+  }
+
+  const pairs: DuplicatePair<Variant>[] = [];
+  function compare(a: Variant, b: Variant) {
+    const score = variantSimilarity(a, b);
+    if (score != null) pairs.push({ a, b, score });
+  }
+
+  for (const list of sized.values()) {
+    list.sort((x, y) => x.amount - y.amount);
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length && list[j].amount <= list[i].amount * (1 + SIZE_TOLERANCE); j++) {
+        compare(list[i].v, list[j].v);
+      }
+    }
+  }
+  for (const list of other.values()) {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) compare(list[i], list[j]);
+    }
+  }
+
+  return byScore(pairs);
+}
+
+// Every pair of brands (or products) whose names look the same
+export function findDuplicateNames<T extends { name: string }>(entries: T[]): DuplicatePair<T>[] {
+  const pairs: DuplicatePair<T>[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const score = nameSimilarity(entries[i].name, entries[j].name);
+      if (score >= SIMILAR_NAME) pairs.push({ a: entries[i], b: entries[j], score });
+    }
+  }
+  return byScore(pairs);
+}
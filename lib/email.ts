@@ -0,0 +1,34 @@
+export type EmailMessage = { to: string; subject: string; text: string };
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Local/dev stub: prints instead of sending.
+export const consoleEmailSender: EmailSender = {
+  async send(message) {
+    console.log(`[email] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+  },
+};
+
+export function createResendEmailSender(apiKey: string, from: string): EmailSender {
+  return {
+    async send(message) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text }),
+      });
+      if (!res.ok) throw new Error(`Resend responded ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+// EMAIL_SENDER=resend (with RESEND_API_KEY and EMAIL_FROM) sends real mail;
+// anything else falls back to the console stub.
+export function getEmailSender(): EmailSender {
+  if (process.env.EMAIL_SENDER === "resend" && process.env.RESEND_API_KEY && process.env.EMAIL_FROM) {
+    return createResendEmailSender(process.env.RESEND_API_KEY, process.env.EMAIL_FROM);
+  }
+  return consoleEmailSender;
+}
@@ -0,0 +1,19 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// PostgREST caps every response (1000 rows by default), so a single select
+// silently drops anything past the cap. Walk the table with .range() instead.
+const PAGE_SIZE = 1000;
+
+export async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
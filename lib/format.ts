@@ -0,0 +1,29 @@
+// Small formatting and input-cleaning helpers shared by pages, server code
+// and lib modules.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 1299 -> "$12.99"
+export function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// Whole days since `iso`, never negative
+export function daysAgo(iso: string) {
+  return Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / DAY_MS));
+}
+
+// Trims and collapses runs of whitespace, as names are stored
+export function normalizeName(s: string) {
+  return s.trim().replace(/\s+/g, " ");
+}
+
+// Optional text fields: normalized, with blank stored as null
+export function blankToNull(s: string | null) {
+  return normalizeName(s ?? "") || null;
+}
+
+// The message of anything thrown: an Error, a PostgrestError, …
+export function errorMessage(e: unknown) {
+  return (e as { message?: string } | null)?.message ?? "Unknown error";
+}
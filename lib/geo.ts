@@ -0,0 +1,75 @@
+import type { Store } from "./prices";
+
+export type LatLng = { lat: number; lng: number };
+
+// A "near me" filter: stores within `km` of a point. `label` says where the
+// point came from ("your location", "M6B 1A1").
+export type Near = LatLng & { km: number; label: string };
+
+export const NEAR_RADII_KM = [2, 5, 10, 25];
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRad(deg: number) {
+  return (deg * Math.PI) / 180;
+}
+
+// Great-circle distance (haversine)
+export function distanceKm(a: LatLng, b: LatLng) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export function storeLocation(store: Store): LatLng | null {
+  return store.latitude != null && store.longitude != null ? { lat: store.latitude, lng: store.longitude } : null;
+}
+
+// Stores within range, in their usual order, with each one's distance in km.
+// Stores without a location are left out: their distance is unknown.
+export function storesNear(stores: Store[], near: Near) {
+  const distances: Record<string, number> = {};
+  const inRange = stores.filter((s) => {
+    const loc = storeLocation(s);
+    if (!loc) return false;
+    distances[s.id] = Math.round(distanceKm(near, loc) * 10) / 10;
+    return distances[s.id] <= near.km;
+  });
+  return { stores: inRange, distances };
+}
+
+// Query-string form used by /api/prices: lat=43.73&lng=-79.43&km=5
+export function nearToParams(near: Near | null, params: URLSearchParams) {
+  if (!near) return;
+  params.set("lat", near.lat.toFixed(4));
+  params.set("lng", near.lng.toFixed(4));
+  params.set("km", String(near.km));
+}
+
+export function nearFromParams(params: URLSearchParams): Near | null {
+  const lat = Number(params.get("lat"));
+  const lng = Number(params.get("lng"));
+  const km = Number(params.get("km"));
+  if (!params.get("lat") || !params.get("lng") || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || !(km > 0)) return null;
+  return { lat, lng, km, label: "" };
+}
+
+// "m6b1a1" → "M6B 1A1", or null if it isn't a Canadian postal code
+export function normalizePostalCode(input: string) {
+  const m = input.toUpperCase().replace(/\s+/g, "").match(/^([A-Z]\d[A-Z])(\d[A-Z]\d)$/);
+  return m ? `${m[1]} ${m[2]}` : null;
+}
+
+// Web Mercator, as used by map tiles: world pixel coordinates at `zoom`
+export const TILE_SIZE = 256;
+
+export function toWorldPixel({ lat, lng }: LatLng, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin(toRad(lat));
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
@@ -0,0 +1,123 @@
+import { normalizePostalCode, type LatLng } from "./geo";
+
+// Postal code / address → coordinates, for the "near me" filter and for
+// placing stores. Pluggable like lib/email.ts; the default is OpenStreetMap's
+// Nominatim, which needs no key but asks for light use and a contact address.
+
+export type GeocodeResult = LatLng & { label: string };
+
+export interface Geocoder {
+  // null when nothing matches
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search";
+
+// The public Nominatim allows one request a second
+// (https://operations.osmfoundation.org/policies/nominatim/)
+const NOMINATIM_INTERVAL_MS = 1000;
+
+// A lookup that hasn't answered by then fails, so it can't hold up the ones
+// queued behind it
+const LOOKUP_TIMEOUT_MS = 8000;
+
+// Past this, a throttled lookup is refused rather than queued
+const MAX_QUEUE_WAIT_MS = 10_000;
+
+export class GeocoderBusyError extends Error {
+  constructor(message = "Address lookup is busy. Try again in a moment.") {
+    super(message);
+    this.name = "GeocoderBusyError";
+  }
+}
+
+// Any Nominatim-compatible search endpoint, limited to Canada. `email` is the
+// contact address Nominatim asks for, sent in the User-Agent and as `email`.
+export function createNominatimGeocoder(url: string, email: string | undefined): Geocoder {
+  return {
+    async geocode(query) {
+      const params = new URLSearchParams({ q: query, format: "jsonv2", countrycodes: "ca", limit: "1" });
+      if (email) params.set("email", email);
+
+      const userAgent = email ? `kosher-prices (${email})` : "kosher-prices";
+      const res = await fetch(`${url}?${params}`, {
+        headers: { "User-Agent": userAgent },
+        signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Geocoder responded ${res.status}: ${await res.text()}`);
+
+      const [hit] = (await res.json()) as { lat: string; lon: string; display_name: string }[];
+      return hit ? { lat: Number(hit.lat), lng: Number(hit.lon), label: hit.display_name } : null;
+    },
+  };
+}
+
+// Lookups start at least `intervalMs` apart; the rest wait their turn, up to
+// `maxWaitMs` (then GeocoderBusyError).
+export function throttleGeocoder(geocoder: Geocoder, intervalMs: number, maxWaitMs = MAX_QUEUE_WAIT_MS): Geocoder {
+  let next = 0;
+
+  return {
+    async geocode(query) {
+      const at = Math.max(Date.now(), next);
+      if (at - Date.now() > maxWaitMs) throw new GeocoderBusyError();
+      next = at + intervalMs;
+      if (at > Date.now()) await new Promise((resolve) => setTimeout(resolve, at - Date.now()));
+      return geocoder.geocode(query);
+    },
+  };
+}
+
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 5000;
+
+// Remembers results (misses too) for queries `shouldCache` accepts, e.g.
+// postal codes, which don't move. A lookup already on its way is shared, and
+// a failed one is forgotten. Oldest entries go first once it's full.
+export function cacheGeocoder(geocoder: Geocoder, shouldCache: (query: string) => boolean): Geocoder {
+  const cache = new Map<string, { result: Promise<GeocodeResult | null>; expires: number }>();
+
+  return {
+    geocode(query) {
+      if (!shouldCache(query)) return geocoder.geocode(query);
+
+      const cached = cache.get(query);
+      if (cached && cached.expires > Date.now()) return cached.result;
+
+      const result = geocoder.geocode(query);
+      cache.delete(query);
+      cache.set(query, { result, expires: Date.now() + CACHE_TTL_MS });
+      if (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+
+      result.catch(() => {
+        if (cache.get(query)?.result === result) cache.delete(query);
+      });
+      return result;
+    },
+  };
+}
+
+// GEOCODER_URL overrides the endpoint (e.g. a self-hosted Nominatim);
+// GEOCODER_EMAIL is passed along as Nominatim's contact address. The public
+// Nominatim is only used with a contact address, and never faster than it
+// allows. Null when neither is set.
+function createGeocoderFromEnv(): Geocoder | null {
+  const url = process.env.GEOCODER_URL;
+  const email = process.env.GEOCODER_EMAIL;
+
+  if (url) return createNominatimGeocoder(url, email);
+  if (!email) return null;
+  return throttleGeocoder(createNominatimGeocoder(NOMINATIM_URL, email), NOMINATIM_INTERVAL_MS);
+}
+
+// One per server process, so the throttle and cache cover every request
+let shared: Geocoder | null | undefined;
+
+// The configured geocoder, with postal codes cached; null when none is set up.
+export function getGeocoder(): Geocoder | null {
+  if (shared === undefined) {
+    const geocoder = createGeocoderFromEnv();
+    shared = geocoder && cacheGeocoder(geocoder, (query) => normalizePostalCode(query) === query);
+  }
+  return shared;
+}
@@ -0,0 +1,54 @@
+import type { Store, Submission } from "./prices";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const LOWEST_WINDOW_DAYS = 90;
+
+export type StoreHistoryStats = {
+  storeId: string;
+  count: number;
+  latestRegular: Submission | null;
+  lowest: Submission | null;
+  // Share of observed weeks in which a sale was reported, 0..1
+  saleWeekPct: number | null;
+  lastSale: Submission | null;
+};
+
+// Cheapest approved price (regular or sale) seen in the last `days` days.
+export function lowestSince(history: Submission[], days = LOWEST_WINDOW_DAYS, now = Date.now()) {
+  const since = now - days * DAY_MS;
+  let lowest: Submission | null = null;
+
+  for (const s of history) {
+    if (new Date(s.created_at).getTime() < since) continue;
+    if (!lowest || s.price_cents < lowest.price_cents) lowest = s;
+  }
+
+  return lowest;
+}
+
+function weekIndex(iso: string) {
+  return Math.floor(new Date(iso).getTime() / WEEK_MS);
+}
+
+// Per-store summary. Sale frequency is counted in weeks rather than rows so a
+// sale reported by five people in one afternoon still counts once.
+export function storeHistoryStats(history: Submission[], stores: Store[]): StoreHistoryStats[] {
+  return stores.map((store) => {
+    const rows = history.filter((s) => s.store_id === store.id);
+    const newestFirst = [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    const weeks = new Set(rows.map((s) => weekIndex(s.created_at)));
+    const saleWeeks = new Set(rows.filter((s) => s.price_type === "sale").map((s) => weekIndex(s.created_at)));
+
+    return {
+      storeId: store.id,
+      count: rows.length,
+      latestRegular: newestFirst.find((s) => s.price_type === "regular") ?? null,
+      lowest: rows.reduce<Submission | null>((min, s) => (!min || s.price_cents < min.price_cents ? s : min), null),
+      saleWeekPct: weeks.size ? saleWeeks.size / weeks.size : null,
+      lastSale: newestFirst.find((s) => s.price_type === "sale") ?? null,
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import type { Enums } from "./database.types";
+
+export type Dietary = Enums<"dietary_type">;
+
+export const DIETARY_TYPES = ["dairy", "meat", "pareve"] as const satisfies readonly Dietary[];
+
+export const DIETARY_LABELS: Record<Dietary, string> = {
+  dairy: "Dairy",
+  meat: "Meat",
+  pareve: "Pareve",
+};
+
+// Hechshers offered in forms and filters, most common in Toronto first. Others
+// can still be typed in; they're stored as written.
+export const HECHSHERS = ["COR", "OU", "OK", "Star-K", "Kof-K", "CRC", "MK", "Badatz", "KVH"];
+
+// Kashrut columns of product_variants
+export type Kashrut = {
+  hechshers: string[];
+  dietary: Dietary | null;
+  chalav_yisrael: boolean;
+  pas_yisroel: boolean;
+  kosher_for_passover: boolean;
+};
+
+export const NO_KASHRUT: Kashrut = {
+  hechshers: [],
+  dietary: null,
+  chalav_yisrael: false,
+  pas_yisroel: false,
+  kosher_for_passover: false,
+};
+
+// Known hechshers take their usual spelling ("cor" → "COR"); duplicates and
+// blanks are dropped.
+export function normalizeHechshers(names: string[]) {
+  const out: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim().replace(/\s+/g, " ");
+    if (!name) continue;
+    const known = HECHSHERS.find((h) => h.toLowerCase() === name.toLowerCase()) ?? name;
+    if (!out.some((h) => h.toLowerCase() === known.toLowerCase())) out.push(known);
+  }
+  return out;
+}
+
+// Short tags for a variant, e.g. ["COR", "Dairy", "Chalav Yisrael", "KFP"]
+export function kashrutTags(k: Kashrut) {
+  const tags = [...k.hechshers];
+  if (k.dietary) tags.push(DIETARY_LABELS[k.dietary]);
+  if (k.chalav_yisrael) tags.push("Chalav Yisrael");
+  if (k.pas_yisroel) tags.push("Pas Yisroel");
+  if (k.kosher_for_passover) tags.push("KFP");
+  return tags;
+}
+
+// Every set field narrows the results. An item matches the hechsher filter if
+// it carries any of the chosen hechshers.
+export type KashrutFilter = {
+  hechshers: string[];
+  dietary: Dietary | null;
+  chalavYisrael: boolean;
+  pasYisroel: boolean;
+  kosherForPassover: boolean;
+};
+
+export const EMPTY_KASHRUT_FILTER: KashrutFilter = {
+  hechshers: [],
+  dietary: null,
+  chalavYisrael: false,
+  pasYisroel: false,
+  kosherForPassover: false,
+};
+
+export function isKashrutFilterEmpty(f: KashrutFilter) {
+  return f.hechshers.length === 0 && !f.dietary && !f.chalavYisrael && !f.pasYisroel && !f.kosherForPassover;
+}
+
+export function matchesKashrut(k: Kashrut, f: KashrutFilter) {
+  if (f.hechshers.length > 0) {
+    const wanted = new Set(f.hechshers.map((h) => h.toLowerCase()));
+    if (!k.hechshers.some((h) => wanted.has(h.toLowerCase()))) return false;
+  }
+  if (f.dietary && k.dietary !== f.dietary) return false;
+  if (f.chalavYisrael && !k.chalav_yisrael) return false;
+  if (f.pasYisroel && !k.pas_yisroel) return false;
+  if (f.kosherForPassover && !k.kosher_for_passover) return false;
+  return true;
+}
+
+// Query-string form used by /api/prices: hechsher=COR,OU&dietary=dairy&cy=1&py=1&kfp=1
+export function kashrutFilterToParams(f: KashrutFilter, params: URLSearchParams) {
+  if (f.hechshers.length > 0) params.set("hechsher", f.hechshers.join(","));
+  if (f.dietary) params.set("dietary", f.dietary);
+  if (f.chalavYisrael) params.set("cy", "1");
+  if (f.pasYisroel) params.set("py", "1");
+  if (f.kosherForPassover) params.set("kfp", "1");
+}
+
+export function kashrutFilterFromParams(params: URLSearchParams): KashrutFilter {
+  const dietary = params.get("dietary");
+  return {
+    hechshers: normalizeHechshers((params.get("hechsher") ?? "").split(",")),
+    dietary: DIETARY_TYPES.find((d) => d === dietary) ?? null,
+    chalavYisrael: params.get("cy") === "1",
+    pasYisroel: params.get("py") === "1",
+    kosherForPassover: params.get("kfp") === "1",
+  };
+}
@@ -0,0 +1,56 @@
+import { useSyncExternalStore } from "react";
+
+// A value persisted in localStorage under `key`, shared by every component
+// that uses it and kept in sync across tabs via the storage event. `parse`
+// checks what was stored (it may be old or hand-edited) and returns
+// `fallback` when it doesn't fit; storing `fallback` clears the key.
+export type LocalStore<T> = {
+  get(): T;
+  set(value: T): void;
+  update(change: (value: T) => T): void;
+  // React hook: the current value, re-rendering when it changes
+  useValue(): T;
+};
+
+export function createLocalStore<T>(key: string, parse: (stored: unknown) => T, fallback: T): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  // The value only changes identity when the stored string does, as
+  // useSyncExternalStore requires
+  let cachedRaw: string | null = null;
+  let cachedValue = fallback;
+
+  function get(): T {
+    const raw = localStorage.getItem(key);
+    if (raw === cachedRaw) return cachedValue;
+
+    cachedRaw = raw;
+    try {
+      cachedValue = raw === null ? fallback : parse(JSON.parse(raw));
+    } catch {
+      cachedValue = fallback; // corrupt entry: start over
+    }
+    return cachedValue;
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.add(listener);
+    window.addEventListener("storage", listener);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", listener);
+    };
+  }
+
+  function set(value: T) {
+    if (value === fallback) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+    listeners.forEach((l) => l());
+  }
+
+  return {
+    get,
+    set,
+    update: (change) => set(change(get())),
+    useValue: () => useSyncExternalStore(subscribe, get, () => fallback),
+  };
+}
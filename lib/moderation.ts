@@ -0,0 +1,37 @@
+import type { Enums } from "./database.types";
+import type { PriceType } from "./prices";
+
+export const REJECTION_REASONS = [
+  { value: "wrong_store", label: "Wrong store" },
+  { value: "wrong_variant", label: "Wrong product / variant" },
+  { value: "typo", label: "Typo in price" },
+  { value: "spam", label: "Spam" },
+] as const satisfies readonly { value: RejectionReason; label: string }[];
+
+export type RejectionReason = Enums<"rejection_reason">;
+
+export function isRejectionReason(value: string): value is RejectionReason {
+  return REJECTION_REASONS.some((r) => r.value === value);
+}
+
+export function rejectionReasonLabel(value: string | null) {
+  return REJECTION_REASONS.find((r) => r.value === value)?.label ?? value ?? "";
+}
+
+// What a moderator may correct before approving. Store/variant mistakes are
+// rejected instead, so the submitter's intent is never silently rewritten.
+export type SubmissionCorrection = {
+  price_cents: number;
+  price_type: PriceType;
+  sale_end_date: string | null;
+};
+
+// Brands, products and variants added by the public start pending (see the
+// catalogue_review migration) and are reviewed in /moderate/catalogue.
+export type CatalogueStatus = Enums<"catalogue_status">;
+
+export type CatalogueKind = Enums<"catalogue_kind">;
+
+export function isCatalogueKind(value: string): value is CatalogueKind {
+  return value === "brand" || value === "product" || value === "variant";
+}
@@ -0,0 +1,26 @@
+import type { Near } from "./geo";
+import { createLocalStore } from "./local-store";
+
+// The "near me" filter, remembered in this browser so the grid and the map
+// share it.
+function isNear(value: unknown): value is Near {
+  const v = value as Near | null;
+  return (
+    typeof v === "object" &&
+    v !== null &&
+    typeof v.lat === "number" &&
+    typeof v.lng === "number" &&
+    typeof v.km === "number" &&
+    typeof v.label === "string"
+  );
+}
+
+const store = createLocalStore<Near | null>("kp_near", (stored) => (isNear(stored) ? stored : null), null);
+
+export function setNear(near: Near | null) {
+  store.set(near);
+}
+
+export function useNear() {
+  return store.useValue();
+}
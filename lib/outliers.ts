@@ -0,0 +1,121 @@
+import { money } from "./format";
+import type { PriceType } from "./prices";
+
+export type PricePoint = {
+  store_id: string;
+  price_cents: number;
+  price_type: PriceType;
+  created_at: string;
+};
+
+export type Candidate = {
+  store_id: string;
+  price_cents: number;
+  price_type: PriceType;
+};
+
+export type OutlierAssessment = {
+  // 0..1: how sure we are the price is plausible. 0 whenever anything is flagged.
+  confidence: number;
+  // Human-readable reasons, shown to moderators
+  flags: string[];
+  autoApprove: boolean;
+};
+
+export const HISTORY_DAYS = 180;
+
+// Robust z-score above this is an outlier (MAD-based, ~3.5 is the usual cut-off)
+const MAX_ROBUST_Z = 3.5;
+// Anything this many times off the median is flagged even with thin history
+const MAX_RATIO = 3;
+// MAD is 0 when every past price is identical; never let the spread fall below this
+const MIN_SPREAD_PCT = 0.05;
+const MIN_POINTS = 3;
+// Deepest discount we believe without a human looking at it
+const MAX_SALE_DISCOUNT = 0.7;
+const AUTO_APPROVE_CONFIDENCE = 0.75;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+type Deviation = { n: number; median: number; relDev: number; robustZ: number };
+
+function deviation(price: number, history: number[]): Deviation | null {
+  if (history.length === 0) return null;
+
+  const med = median(history);
+  const mad = median(history.map((p) => Math.abs(p - med)));
+  const spread = Math.max(1.4826 * mad, med * MIN_SPREAD_PCT);
+
+  return {
+    n: history.length,
+    median: med,
+    relDev: Math.abs(price - med) / med,
+    robustZ: Math.abs(price - med) / spread,
+  };
+}
+
+function checkDeviation(price: number, dev: Deviation | null, where: string, flags: string[]) {
+  if (!dev) return;
+
+  const direction = price > dev.median ? "above" : "below";
+  const ratio = price > dev.median ? price / dev.median : dev.median / price;
+  if (ratio >= MAX_RATIO) {
+    flags.push(`${ratio.toFixed(1)}× ${direction} the ${where} median of ${money(dev.median)}`);
+  } else if (dev.n >= MIN_POINTS && dev.robustZ > MAX_ROBUST_Z) {
+    flags.push(`${Math.round(dev.relDev * 100)}% ${direction} the ${where} median of ${money(dev.median)}`);
+  }
+}
+
+// Score a new submission against the variant's recent approved history, at
+// the same store and elsewhere. `history` is expected newest-first.
+export function assessSubmission(candidate: Candidate, history: PricePoint[]): OutlierAssessment {
+  const flags: string[] = [];
+  const price = candidate.price_cents;
+
+  const sameType = history.filter((h) => h.price_type === candidate.price_type);
+  const sameStore = sameType.filter((h) => h.store_id === candidate.store_id).map((h) => h.price_cents);
+  const otherStores = sameType.filter((h) => h.store_id !== candidate.store_id).map((h) => h.price_cents);
+
+  const storeDev = deviation(price, sameStore);
+  const otherDev = deviation(price, otherStores);
+
+  checkDeviation(price, storeDev, "store's recent", flags);
+  checkDeviation(price, otherDev, "other stores'", flags);
+
+  // Sale vs regular sanity, against the latest price of the other type here
+  const latestRegular = history.find((h) => h.store_id === candidate.store_id && h.price_type === "regular");
+  const latestSale = history.find((h) => h.store_id === candidate.store_id && h.price_type === "sale");
+
+  if (candidate.price_type === "sale" && latestRegular) {
+    if (price >= latestRegular.price_cents) {
+      flags.push(`Sale price is not below the regular price of ${money(latestRegular.price_cents)}`);
+    } else if (price < latestRegular.price_cents * (1 - MAX_SALE_DISCOUNT)) {
+      flags.push(
+        `Sale is more than ${Math.round(MAX_SALE_DISCOUNT * 100)}% off the regular price of ${money(latestRegular.price_cents)}`
+      );
+    }
+  }
+
+  if (candidate.price_type === "regular" && latestSale && price < latestSale.price_cents) {
+    flags.push(`Regular price is below the last sale price of ${money(latestSale.price_cents)}`);
+  }
+
+  if (flags.length > 0) return { confidence: 0, flags, autoApprove: false };
+
+  // Confidence grows with the amount of history and shrinks with distance from
+  // it. The same store's history counts most.
+  const best = storeDev && storeDev.n >= MIN_POINTS ? storeDev : otherDev ?? storeDev;
+  const confidence = best
+    ? Math.min(1, best.n / (MIN_POINTS + 2)) * Math.max(0, 1 - best.relDev / 0.25)
+    : 0;
+
+  return {
+    confidence: Math.round(confidence * 100) / 100,
+    flags,
+    autoApprove: confidence >= AUTO_APPROVE_CONFIDENCE,
+  };
+}
@@ -0,0 +1,187 @@
+import type { CategoryStats } from "./categories";
+import type { Enums, Tables } from "./database.types";
+import type { Season } from "./seasons";
+import type { SizeRank } from "./units";
+import type { Variant } from "./variants";
+
+export type Mode = "best" | "regular" | "sale";
+
+export type PriceType = Enums<"price_type">;
+
+export function isPriceType(value: string): value is PriceType {
+  return value === "regular" || value === "sale";
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// A real calendar date, not just the shape of one (no 2026-02-30)
+export function isIsoDate(value: string) {
+  const date = new Date(value + "T00:00:00Z");
+  return ISO_DATE.test(value) && !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// The price fields of a submission or a moderator's correction, checked
+// before anything is read or written
+export function priceInputError(input: { price_cents: number; price_type: string; sale_end_date: string | null }) {
+  if (!Number.isInteger(input.price_cents) || input.price_cents <= 0) return "Enter a valid price like 12.99.";
+  if (!isPriceType(input.price_type)) return "Pick a regular or a sale price.";
+  if (input.sale_end_date !== null) {
+    if (input.price_type !== "sale") return "Only a sale price has an end date.";
+    if (!isIsoDate(input.sale_end_date)) return "That sale end date isn’t a date.";
+  }
+  return null;
+}
+
+export type Store = Pick<Tables<"stores">, "id" | "name" | "sort_order" | "latitude" | "longitude">;
+
+export type Submission = Pick<
+  Tables<"price_submissions">,
+  "id" | "store_id" | "variant_id" | "price_cents" | "price_type" | "sale_end_date" | "created_at" | "is_approved"
+>;
+
+export const SUBMISSION_SELECT = "id,store_id,variant_id,price_cents,price_type,sale_end_date,created_at,is_approved";
+
+export type LatestSlot = { regular?: Submission; sale?: Submission };
+
+// variantId -> storeId -> latest regular + latest sale
+export type LatestMap = Record<string, Record<string, LatestSlot>>;
+
+// `pending` is only ever set for the viewer's own not-yet-approved submission.
+// `lastSeason` (season mode only) is the lowest price at the store last season.
+export type PriceCell = {
+  price?: number;
+  isSale?: boolean;
+  pending?: boolean;
+  created_at?: string;
+  lastSeason?: number;
+};
+
+export type PriceRow = {
+  variant: Variant;
+  cells: Record<string, PriceCell>;
+  cheapestStoreId: string | null;
+  savePct: number | null;
+  // Unit-price rank among other sizes of the same product + brand
+  sizeRank: SizeRank | null;
+};
+
+// Season mode: the season on screen and the one it's compared with
+export type SeasonView = { current: Season; previous: Season | null };
+
+export type PriceGridResponse = {
+  stores: Store[];
+  rows: PriceRow[];
+  page: number;
+  pageSize: number;
+  total: number;
+  season: SeasonView | null;
+  // With a "near" filter: km from the chosen point to each store shown
+  distances: Record<string, number> | null;
+  // Per category, over every row that matched (not just this page)
+  categoryStats: Record<string, CategoryStats>;
+};
+
+// Build "latest regular + latest sale" map per (variant, store). The first
+// row seen for a (variant, store, price type) wins, so pass either one row
+// per slot (latest_prices) or rows ordered newest-first.
+export function buildLatestMap(submissions: Submission[]): LatestMap {
+  const map: LatestMap = {};
+
+  for (const s of submissions) {
+    if (!s.variant_id) continue;
+
+    map[s.variant_id] ||= {};
+    map[s.variant_id][s.store_id] ||= {};
+
+    const slot = map[s.variant_id][s.store_id];
+
+    // Only set if empty: a later row is never newer
+    if (s.price_type === "regular" && !slot.regular) slot.regular = s;
+    if (s.price_type === "sale" && !slot.sale) slot.sale = s;
+  }
+
+  return map;
+}
+
+export function isSaleStillValid(sale: Submission | undefined) {
+  if (!sale) return false;
+  if (!sale.sale_end_date) return true; // no end date => assume active
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const end = new Date(sale.sale_end_date + "T00:00:00");
+  return end >= today;
+}
+
+export function resolvePrice(slot: LatestSlot | undefined, mode: Mode): PriceCell {
+  if (!slot) return {};
+
+  const regular = slot.regular ? slot.regular.price_cents / 100 : undefined;
+  const saleOk = isSaleStillValid(slot.sale);
+  const sale = slot.sale && saleOk ? slot.sale.price_cents / 100 : undefined;
+
+  const regularCell = (): PriceCell => ({
+    price: regular,
+    isSale: false,
+    pending: !slot.regular!.is_approved,
+    created_at: slot.regular!.created_at,
+  });
+  const saleCell = (): PriceCell => ({
+    price: sale,
+    isSale: true,
+    pending: !slot.sale!.is_approved,
+    created_at: slot.sale!.created_at,
+  });
+
+  if (mode === "regular") {
+    return regular != null ? regularCell() : {};
+  }
+
+  if (mode === "sale") {
+    return sale != null ? saleCell() : {};
+  }
+
+  // best
+  if (sale != null && regular != null) {
+    return sale <= regular ? saleCell() : regularCell();
+  }
+  if (sale != null) return saleCell();
+  if (regular != null) return regularCell();
+  return {};
+}
+
+export function cheapestInfo(cells: Record<string, PriceCell>) {
+  const vals: { storeId: string; price: number }[] = [];
+
+  for (const [storeId, cell] of Object.entries(cells)) {
+    if (cell.price != null) vals.push({ storeId, price: cell.price });
+  }
+
+  vals.sort((a, b) => a.price - b.price);
+
+  const cheapest = vals[0];
+  const second = vals[1];
+
+  if (!cheapest) return { cheapestStoreId: null as string | null, savePct: null as number | null };
+  if (!second) return { cheapestStoreId: cheapest.storeId, savePct: null };
+
+  const savePct = ((second.price - cheapest.price) / second.price) * 100;
+  return { cheapestStoreId: cheapest.storeId, savePct: Math.round(savePct * 10) / 10 };
+}
+
+export function buildPriceRow(variant: Variant, stores: Store[], latest: LatestMap, mode: Mode): PriceRow {
+  const cells: Record<string, PriceCell> = {};
+  for (const s of stores) {
+    cells[s.id] = resolvePrice(latest[variant.id]?.[s.id], mode);
+  }
+
+  return { variant, cells, ...cheapestInfo(cells), sizeRank: null };
+}
+
+export function cheapestPrice(row: PriceRow) {
+  return row.cheapestStoreId ? (row.cells[row.cheapestStoreId].price ?? null) : null;
+}
+
+// Last season's prices count too, so season mode isn't empty early in a season
+export function hasAnyPrice(row: PriceRow) {
+  return Object.values(row.cells).some((cell) => cell.price != null || cell.lastSeason != null);
+}
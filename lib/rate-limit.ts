@@ -0,0 +1,35 @@
+// Fixed-window request counting per key (e.g. a client's IP address). In
+// memory, so each server process counts on its own: enough to stop one
+// client from using up an upstream service's allowance.
+
+export type RateLimiter = {
+  // 0 when the request may go ahead, otherwise seconds until it may
+  take(key: string): number;
+};
+
+// Past this many keys, finished windows are swept out
+const MAX_KEYS = 10_000;
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(key) {
+      const now = Date.now();
+
+      if (windows.size > MAX_KEYS) {
+        for (const [k, w] of windows) if (now - w.start >= windowMs) windows.delete(k);
+      }
+
+      const current = windows.get(key);
+      if (!current || now - current.start >= windowMs) {
+        windows.set(key, { start: now, count: 1 });
+        return 0;
+      }
+
+      if (current.count >= limit) return Math.ceil((current.start + windowMs - now) / 1000);
+      current.count++;
+      return 0;
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { searchVariants } from "./search";
+import type { Variant } from "./variants";
+
+// Receipt → line items. Extraction is pluggable (like lib/email.ts): the local
+// extractor reads plain-text receipts; an OCR service can be plugged in for
+// images and PDFs. Both end up in parseReceiptText, so parsing behaves the
+// same whichever produced the text.
+
+export type ReceiptLine = {
+  // Item description as printed, e.g. "KEDEM GRAPE JUICE 1.89L"
+  text: string;
+  // Price of one unit, after any discount printed under it
+  priceCents: number;
+  quantity: number;
+  // A discount/savings line followed the item
+  isSale: boolean;
+};
+
+export type ReceiptFile = { name: string; type: string; bytes: Uint8Array };
+
+export interface ReceiptExtractor {
+  extract(file: ReceiptFile): Promise<ReceiptLine[]>;
+}
+
+export class UnsupportedReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedReceiptError";
+  }
+}
+
+// Totals, taxes and payment lines carry prices too but aren't items
+const NOT_AN_ITEM =
+  /\b(sub-?total|total|tax|hst|gst|pst|qst|balance|change|cash|visa|mastercard|amex|debit|credit|tender|points|rounding)\b/i;
+
+const DISCOUNT = /\b(savings?|saved|discount|coupon|instant|promo|off)\b/i;
+
+// A price at the end of a line, optionally followed by a tax code ("7.49 H")
+const TRAILING_PRICE = /(-?)\$?(\d{1,4}[.,]\d{2})(-?)\s*[A-Z*]{0,2}\s*$/;
+
+// "2 @ 3.49" or "2 x $3.49"
+const QUANTITY = /^(\d{1,3})\s*(?:@|x)\s*\$?(\d{1,4}[.,]\d{2})\b/i;
+
+function cents(amount: string) {
+  return Math.round(Number(amount.replace(",", ".")) * 100);
+}
+
+function cleanDescription(text: string) {
+  return text
+    .replace(/^\d{4,}\s+/, "") // leading item/PLU code
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+export function parseReceiptText(text: string): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  // Description printed on its own line, waiting for a "2 @ 3.49" line
+  let pendingText: string | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const qty = line.match(QUANTITY);
+    if (qty) {
+      const prev = lines.at(-1);
+      if (pendingText) {
+        lines.push({ text: pendingText, priceCents: cents(qty[2]), quantity: Number(qty[1]), isSale: false });
+        pendingText = null;
+      } else if (prev) {
+        // Quantity printed under an item that already has its line total
+        prev.quantity = Number(qty[1]);
+        prev.priceCents = cents(qty[2]);
+      }
+      continue;
+    }
+
+    const price = line.match(TRAILING_PRICE);
+    if (!price) {
+      if (!NOT_AN_ITEM.test(line) && /[a-z]{2,}/i.test(line)) pendingText = cleanDescription(line);
+      continue;
+    }
+    pendingText = null;
+
+    const negative = price[1] === "-" || price[3] === "-";
+    const description = cleanDescription(line.slice(0, price.index));
+    const amount = cents(price[2]);
+
+    if (negative || DISCOUNT.test(description)) {
+      // A discount applies to the item just above it
+      const prev = lines.at(-1);
+      if (prev && amount < prev.priceCents * prev.quantity) {
+        prev.priceCents = Math.round((prev.priceCents * prev.quantity - amount) / prev.quantity);
+        prev.isSale = true;
+      }
+      continue;
+    }
+
+    if (NOT_AN_ITEM.test(description) || !/[a-z]{2,}/i.test(description)) continue;
+
+    lines.push({ text: description, priceCents: amount, quantity: 1, isSale: false });
+  }
+
+  return lines.filter((l) => l.priceCents > 0);
+}
+
+function isText(file: ReceiptFile) {
+  return file.type.startsWith("text/") || /\.txt$/i.test(file.name);
+}
+
+// Local extractor: plain-text receipts only (e.g. emailed receipts pasted into
+// a .txt file). Good enough for development and testing.
+export const textReceiptExtractor: ReceiptExtractor = {
+  async extract(file) {
+    if (!isText(file)) {
+      throw new UnsupportedReceiptError(
+        "Only text receipts can be read here. Paste the receipt text instead, or ask an admin to set up OCR."
+      );
+    }
+    return parseReceiptText(new TextDecoder().decode(file.bytes));
+  },
+};
+
+// OCR over HTTP: posts the raw file and expects `{ "text": "..." }` back.
+export function createOcrReceiptExtractor(url: string, apiKey: string | undefined): ReceiptExtractor {
+  return {
+    async extract(file) {
+      if (isText(file)) return textReceiptExtractor.extract(file);
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": file.type || "application/octet-stream",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: file.bytes as BodyInit,
+      });
+      if (!res.ok) throw new Error(`OCR service responded ${res.status}: ${await res.text()}`);
+
+      const body = (await res.json()) as { text?: unknown };
+      if (typeof body.text !== "string") throw new Error("OCR service returned no text.");
+      return parseReceiptText(body.text);
+    },
+  };
+}
+
+// RECEIPT_EXTRACTOR=ocr (with RECEIPT_OCR_URL, optionally RECEIPT_OCR_API_KEY)
+// reads images and PDFs; anything else falls back to the text-only extractor.
+export function getReceiptExtractor(): ReceiptExtractor {
+  if (process.env.RECEIPT_EXTRACTOR === "ocr" && process.env.RECEIPT_OCR_URL) {
+    return createOcrReceiptExtractor(process.env.RECEIPT_OCR_URL, process.env.RECEIPT_OCR_API_KEY);
+  }
+  return textReceiptExtractor;
+}
+
+export type MatchedReceiptLine = ReceiptLine & {
+  // Best-guess variant, for the user to confirm or change
+  variantId: string | null;
+};
+
+export function matchReceiptLines(lines: ReceiptLine[], variants: Variant[]): MatchedReceiptLine[] {
+  return lines.map((line) => ({
+    ...line,
+    variantId: searchVariants(variants, line.text, (v) => v, { partial: true })[0]?.id ?? null,
+  }));
+}
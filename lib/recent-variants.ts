@@ -0,0 +1,19 @@
+import { createLocalStore } from "./local-store";
+
+// Variants this browser recently submitted prices for, newest first.
+const MAX_RECENT = 8;
+const EMPTY: string[] = [];
+
+const store = createLocalStore<string[]>(
+  "kp_recent_variants",
+  (stored) => (Array.isArray(stored) ? stored.filter((id) => typeof id === "string") : EMPTY),
+  EMPTY
+);
+
+export function rememberVariant(id: string) {
+  store.update((ids) => [id, ...ids.filter((x) => x !== id)].slice(0, MAX_RECENT));
+}
+
+export function useRecentVariants() {
+  return store.useValue();
+}
@@ -0,0 +1,232 @@
+import { toBaseQuantity, type Quantity } from "./units";
+import type { Variant } from "./variants";
+
+// Ranked, typo-tolerant variant search shared by the price grid and /add.
+//
+// A query is split into a size ("1.5L", "1.5 l", "1500ml" all mean the same
+// thing) and words. Every word has to match some word of the variant, in any
+// order, either exactly, as a prefix (for type-ahead), as the same
+// transliteration ("challa" / "challah"), through the synonym table, or within
+// a small edit distance ("juce" → "juice").
+
+// Words that mean the same thing. Both the query and the catalogue are mapped
+// to the first spelling of each group before matching.
+export const SYNONYMS: string[][] = [
+  ["challah", "challa", "chala", "hallah", "halla"],
+  ["matzo", "matzah", "matza", "matzoh", "matzos", "matzot"],
+  ["gefilte", "gefilta", "gefillte"],
+  ["hamantaschen", "hamentashen", "hamantashen", "homentashen"],
+  ["rugelach", "rugalach", "ruggelach", "rugelah"],
+  ["cholent", "chulent", "tsholent"],
+  ["kichel", "kichlach"],
+  ["lokshen", "noodles", "noodle"],
+  ["schnitzel", "shnitzel"],
+  ["schmaltz", "shmaltz"],
+  ["tahini", "techina", "tehina", "tchina"],
+  ["hummus", "humus", "houmous", "chumus"],
+  ["pareve", "parve", "parev"],
+  ["chips", "crisps"],
+  ["soda", "pop"],
+  ["juice", "juices"],
+];
+
+const SYNONYM_OF = new Map(SYNONYMS.flatMap((group) => group.map((word) => [word, group[0]] as const)));
+
+// Spellings of each unit the catalogue uses (see /add-product)
+const UNIT_ALIASES: Record<string, string> = {
+  l: "L",
+  lt: "L",
+  ltr: "L",
+  litre: "L",
+  litres: "L",
+  liter: "L",
+  liters: "L",
+  ml: "ml",
+  mls: "ml",
+  g: "g",
+  gr: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  oz: "oz",
+  pk: "pack",
+  pack: "pack",
+  packs: "pack",
+  ea: "each",
+  each: "each",
+};
+
+const SIZE_RE = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${Object.keys(UNIT_ALIASES).join("|")})\\b`);
+
+type Size = { value: number; unit: string; quantity: Quantity | null };
+
+export type ParsedQuery = { words: string[]; size: Size | null };
+
+// Lowercase, strip accents and punctuation. Keeps decimal points in numbers.
+export function normalizeText(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}.]+/gu, " ")
+    .replace(/\.(?!\d)|(?<!\d)\./g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function canonical(word: string) {
+  return SYNONYM_OF.get(word) ?? word;
+}
+
+// Collapses common transliteration differences: ch/kh, tz/ts, doubled
+// letters and a trailing h ("Challah" / "chala", "matzoh" / "matzo").
+function translitKey(word: string) {
+  return word
+    .replace(/ch|kh/g, "h")
+    .replace(/tz|ts/g, "z")
+    .replace(/(.)\1+/g, "$1")
+    .replace(/(.{3,})h$/, "$1");
+}
+
+function editDistance(a: string, b: string) {
+  // Optimal string alignment: insert, delete, substitute, swap neighbours
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function allowedEdits(word: string) {
+  if (word.length <= 3) return 0;
+  return word.length <= 6 ? 1 : 2;
+}
+
+// How alike two whole words are, in [0, 1], by the same rules as a search
+// but without prefix matching (for comparing names, not type-ahead).
+export function wordSimilarity(a: string, b: string) {
+  const x = canonical(a);
+  const y = canonical(b);
+  if (x === y) return 1;
+  if (/\d/.test(x) || /\d/.test(y)) return 0;
+  if (translitKey(x) === translitKey(y)) return 0.95;
+
+  const max = allowedEdits(x.length < y.length ? x : y);
+  if (max === 0 || Math.abs(x.length - y.length) > max) return 0;
+  const dist = editDistance(x, y);
+  return dist <= max ? 0.8 - 0.15 * (dist - 1) : 0;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  let text = normalizeText(query);
+  let size: Size | null = null;
+
+  const m = text.match(SIZE_RE);
+  if (m) {
+    const value = Number(m[1]);
+    const unit = UNIT_ALIASES[m[2]];
+    size = { value, unit, quantity: toBaseQuantity(value, unit) };
+    text = text.replace(m[0], " ");
+  }
+
+  return { words: text.split(" ").filter(Boolean).map(canonical), size };
+}
+
+type IndexedVariant = { words: string[]; size: Size | null };
+
+function indexVariant(v: Variant): IndexedVariant {
+  const words = normalizeText(`${v.brand_name} ${v.product_name} ${v.flavour ?? ""}`)
+    .split(" ")
+    .filter(Boolean)
+    .map(canonical);
+
+  if (v.size_value != null) words.push(String(v.size_value));
+
+  const size =
+    v.size_value != null && v.size_unit
+      ? { value: v.size_value, unit: v.size_unit, quantity: toBaseQuantity(v.size_value, v.size_unit) }
+      : null;
+
+  return { words, size };
+}
+
+// 0 = no match, 1 = exact
+function wordScore(q: string, d: string) {
+  if (q === d) return 1;
+  // Numbers only match exactly or as a prefix: 1.5 is not a typo of 1.8
+  const numeric = /\d/.test(q);
+  if (!numeric && translitKey(q) === translitKey(d)) return 0.95;
+  if (q.length >= 2 && d.startsWith(q)) return 0.85;
+  if (numeric) return 0;
+
+  const max = allowedEdits(q);
+  if (max === 0 || Math.abs(q.length - d.length) > max) return 0;
+  const dist = editDistance(q, d);
+  return dist <= max ? 0.8 - 0.15 * (dist - 1) : 0;
+}
+
+function sizeMatches(q: Size, v: Size | null) {
+  if (!v) return false;
+  if (q.quantity && v.quantity) {
+    return q.quantity.dimension === v.quantity.dimension && Math.abs(q.quantity.amount - v.quantity.amount) < 0.01 * v.quantity.amount;
+  }
+  return q.unit === v.unit && q.value === v.value;
+}
+
+export type SearchOptions = {
+  // Let some query words go unmatched (at least half must match), for noisy
+  // input like receipt lines. Unmatched words still lower the score.
+  partial?: boolean;
+};
+
+// Score in (0, 1], or null if the variant doesn't match the query at all.
+function scoreVariant(parsed: ParsedQuery, v: IndexedVariant, { partial = false }: SearchOptions) {
+  if (parsed.size && !sizeMatches(parsed.size, v.size)) return null;
+  if (parsed.words.length === 0) return 1;
+
+  let total = 0;
+  let matched = 0;
+  for (const q of parsed.words) {
+    let best = 0;
+    for (const d of v.words) best = Math.max(best, wordScore(q, d));
+    if (best === 0 && !partial) return null;
+    if (best > 0) matched++;
+    total += best;
+  }
+  if (matched === 0 || matched < parsed.words.length / 2) return null;
+  return total / parsed.words.length;
+}
+
+// Items matching `query`, best match first (ties keep their input order). An
+// empty query returns everything unchanged.
+export function searchVariants<T>(
+  items: T[],
+  query: string,
+  toVariant: (item: T) => Variant,
+  options: SearchOptions = {}
+): T[] {
+  const parsed = parseQuery(query);
+  if (parsed.words.length === 0 && !parsed.size) return items;
+
+  return items
+    .map((item, i) => ({ item, i, score: scoreVariant(parsed, indexVariant(toVariant(item)), options) }))
+    .filter((r): r is { item: T; i: number; score: number } => r.score != null)
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map((r) => r.item);
+}
@@ -0,0 +1,80 @@
+import type { Enums, Tables } from "./database.types";
+import type { Mode, Submission } from "./prices";
+import type { Variant } from "./variants";
+
+export type Holiday = Enums<"holiday">;
+
+export const HOLIDAYS = [
+  { value: "pesach", label: "Pesach" },
+  { value: "shavuot", label: "Shavuot" },
+  { value: "rosh_hashanah", label: "Rosh Hashanah" },
+  { value: "sukkot", label: "Sukkot" },
+  { value: "chanukah", label: "Chanukah" },
+  { value: "purim", label: "Purim" },
+] as const satisfies readonly { value: Holiday; label: string }[];
+
+export function holidayLabel(h: Holiday) {
+  return HOLIDAYS.find((x) => x.value === h)?.label ?? h;
+}
+
+export function isHoliday(value: string): value is Holiday {
+  return HOLIDAYS.some((h) => h.value === value);
+}
+
+export type Season = Pick<Tables<"seasons">, "id" | "name" | "holiday" | "starts_on" | "ends_on">;
+
+export const SEASON_SELECT = "id,name,holiday,starts_on,ends_on";
+
+// Half-open range of created_at timestamps: [from, to)
+export type DateRange = { from: string; to: string };
+
+function dayAfter(date: string) {
+  const d = new Date(date + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+export function seasonRange(season: Season): DateRange {
+  return { from: season.starts_on, to: dayAfter(season.ends_on) };
+}
+
+// The same holiday's season before this one, if any
+export function previousSeason(seasons: Season[], season: Season): Season | null {
+  return (
+    seasons
+      .filter((s) => s.holiday === season.holiday && s.starts_on < season.starts_on)
+      .sort((a, b) => b.starts_on.localeCompare(a.starts_on))[0] ?? null
+  );
+}
+
+// Tagged for the holiday, and anything Kosher for Passover counts for Pesach
+export function isSeasonal(v: Variant, season: Season) {
+  return v.holidays.includes(season.holiday) || (season.holiday === "pesach" && v.kosher_for_passover);
+}
+
+// Lowest price per (variant, store) among the submissions, in dollars. Sales
+// count even if they've since ended: they were real prices during the season.
+export function lowestPrices(submissions: Submission[], mode: Mode) {
+  const lows: Record<string, Record<string, number>> = {};
+
+  for (const s of submissions) {
+    if (mode !== "best" && s.price_type !== mode) continue;
+
+    const byStore = (lows[s.variant_id] ||= {});
+    const price = s.price_cents / 100;
+    if (byStore[s.store_id] == null || price < byStore[s.store_id]) byStore[s.store_id] = price;
+  }
+
+  return lows;
+}
+
+// Percentage change from last season, rounded to a whole number
+export function seasonChangePct(now: number, last: number) {
+  return Math.round(((now - last) / last) * 100);
+}
+
+export function formatSeasonDates(season: Season) {
+  const fmt = (d: string) =>
+    new Date(d + "T00:00:00").toLocaleDateString("en-CA", { month: "short", day: "numeric", year: "numeric" });
+  return `${fmt(season.starts_on)} – ${fmt(season.ends_on)}`;
+}
@@ -0,0 +1,25 @@
+import type { ListItem } from "./basket";
+import { createLocalStore } from "./local-store";
+
+// Shopping list persisted in localStorage, shared by every component that
+// uses it (and kept in sync across tabs).
+const EMPTY: ListItem[] = [];
+
+// Quantities are whole and at least 1; anything else (an old or hand-edited
+// entry) is dropped rather than skewing basket totals
+const store = createLocalStore<ListItem[]>(
+  "kp_shopping_list",
+  (stored) =>
+    Array.isArray(stored)
+      ? stored.filter((i) => i && typeof i.variantId === "string" && Number.isInteger(i.qty) && i.qty > 0)
+      : EMPTY,
+  EMPTY
+);
+
+export function updateShoppingList(update: (items: ListItem[]) => ListItem[]) {
+  store.update(update);
+}
+
+export function useShoppingList() {
+  return store.useValue();
+}
@@ -0,0 +1,104 @@
+import type { Json, Tables } from "./database.types";
+import { blankToNull } from "./format";
+
+// Everything the stores admin edits. The grid and forms only need `Store`
+// (lib/prices.ts).
+export type StoreDetails = Omit<Tables<"stores">, "created_at" | "hours"> & { hours: WeeklyHours };
+
+export const STORE_DETAILS_SELECT =
+  "id,name,sort_order,address,neighbourhood,website,hours,closed_shabbos,closed_yom_tov,hours_note,is_active,latitude,longitude";
+
+export const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type Day = (typeof DAYS)[number];
+
+export const DAY_LABELS: Record<Day, string> = {
+  sun: "Sunday",
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Shabbos",
+};
+
+// null = closed that day; a missing day = hours unknown
+export type DayHours = { open: string; close: string } | null;
+export type WeeklyHours = Partial<Record<Day, DayHours>>;
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isDayHours(value: Json | undefined): value is { open: string; close: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof value.open === "string" &&
+    typeof value.close === "string"
+  );
+}
+
+// stores.hours is free-form jsonb; drop anything that isn't a valid day entry
+export function parseHours(json: Json): WeeklyHours {
+  const hours: WeeklyHours = {};
+  if (typeof json !== "object" || json === null || Array.isArray(json)) return hours;
+
+  for (const day of DAYS) {
+    const value = json[day];
+    if (value === null) hours[day] = null;
+    else if (isDayHours(value)) hours[day] = { open: value.open, close: value.close };
+  }
+  return hours;
+}
+
+export type StoreInput = Omit<StoreDetails, "id" | "sort_order" | "is_active">;
+
+// Tidies the input and returns an error message, or null if it can be saved
+export function validateStore(input: StoreInput): { store: StoreInput; error: string | null } {
+  // Field by field, so extra properties (an id, say) never reach the update
+  const store: StoreInput = {
+    name: input.name.trim().replace(/\s+/g, " "),
+    address: blankToNull(input.address),
+    neighbourhood: blankToNull(input.neighbourhood),
+    website: blankToNull(input.website),
+    hours: parseHours(input.hours),
+    closed_shabbos: input.closed_shabbos,
+    closed_yom_tov: input.closed_yom_tov,
+    hours_note: blankToNull(input.hours_note),
+    latitude: input.latitude,
+    longitude: input.longitude,
+  };
+
+  if (!store.name) return { store, error: "Enter the store’s name." };
+  if (store.website && !/^https?:\/\//i.test(store.website)) {
+    return { store, error: "The website should start with https://" };
+  }
+
+  if ((store.latitude == null) !== (store.longitude == null)) {
+    return { store, error: "Enter both latitude and longitude, or neither." };
+  }
+  if (store.latitude != null && store.longitude != null) {
+    if (!(Math.abs(store.latitude) <= 90) || !(Math.abs(store.longitude) <= 180)) {
+      return { store, error: "That location isn’t valid. Latitude goes up to 90, longitude up to 180." };
+    }
+  }
+
+  for (const day of DAYS) {
+    const h = store.hours[day];
+    if (!h) continue;
+    if (!TIME.test(h.open) || !TIME.test(h.close)) return { store, error: `Enter both times for ${DAY_LABELS[day]}.` };
+    if (h.close <= h.open) return { store, error: `${DAY_LABELS[day]} closes before it opens.` };
+  }
+
+  return { store, error: null };
+}
+
+// "Sun 08:00–20:00 · … · Shabbos closed"
+export function formatHours(hours: WeeklyHours) {
+  return DAYS.filter((d) => hours[d] !== undefined)
+    .map((d) => {
+      const h = hours[d];
+      return `${DAY_LABELS[d].slice(0, d === "sat" ? undefined : 3)} ${h ? `${h.open}–${h.close}` : "closed"}`;
+    })
+    .join(" · ");
+}
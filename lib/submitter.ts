@@ -0,0 +1,9 @@
+// Anonymous submitter identity. `proxy` hands every browser a random id in
+// this cookie so people can see their own pending prices before approval.
+export const SUBMITTER_COOKIE = "kp_submitter";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isSubmitterId(value: string | null | undefined): value is string {
+  return !!value && UUID_RE.test(value);
+}
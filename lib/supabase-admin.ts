@@ -0,0 +1,10 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+// Service-role client for server code that must act on behalf of other users
+// (e.g. writing their notifications). Never import this from client components.
+export function createSupabaseAdminClient() {
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
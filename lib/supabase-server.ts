@@ -0,0 +1,42 @@
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { ForbiddenError, isModerator } from "./auth";
+import type { Database } from "./database.types";
+
+// Server client for route handlers, server actions and server components.
+// Reads the auth session from the request cookies.
+export async function createSupabaseServerClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {
+            // Called from a server component, where cookies are read-only.
+            // The proxy refreshes the session instead.
+          }
+        },
+      },
+    }
+  );
+}
+
+// For server actions and route handlers: returns a session-bound client for a
+// moderator, or throws ForbiddenError for anyone else.
+export async function requireModerator() {
+  const client = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+
+  if (!user || !isModerator(user)) throw new ForbiddenError();
+  return { client, user };
+}
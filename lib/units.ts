@@ -0,0 +1,93 @@
+import { money } from "./format";
+import type { Variant } from "./variants";
+
+export type Dimension = "volume" | "mass" | "count";
+
+// Units offered when creating a variant
+export const SIZE_UNITS = ["L", "ml", "kg", "g", "lb", "oz", "pack", "each"] as const;
+
+// Factor to the base unit of each dimension: ml, g, item.
+// "oz" is treated as weight (avoirdupois); fluid ounces should be entered as ml.
+// "pack" has no known item count, so it never converts.
+const UNITS: Record<string, { dimension: Dimension; factor: number }> = {
+  ml: { dimension: "volume", factor: 1 },
+  L: { dimension: "volume", factor: 1000 },
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  lb: { dimension: "mass", factor: 453.59237 },
+  oz: { dimension: "mass", factor: 28.349523125 },
+  each: { dimension: "count", factor: 1 },
+};
+
+// What a unit price is quoted per, in base units
+const PER: Record<Dimension, { amount: number; label: string }> = {
+  volume: { amount: 100, label: "100ml" },
+  mass: { amount: 1000, label: "kg" },
+  count: { amount: 1, label: "each" },
+};
+
+export type Quantity = { dimension: Dimension; amount: number };
+
+export type UnitPrice = { dimension: Dimension; cents: number; per: string };
+
+export function toBaseQuantity(sizeValue: number | null, sizeUnit: string | null): Quantity | null {
+  if (sizeValue == null || !sizeUnit || !(sizeValue > 0)) return null;
+
+  const unit = UNITS[sizeUnit] ?? UNITS[sizeUnit.toLowerCase()];
+  if (!unit) return null;
+
+  return { dimension: unit.dimension, amount: sizeValue * unit.factor };
+}
+
+// Convert between compatible units, e.g. convert(1.5, "L", "ml") === 1500.
+export function convert(value: number, from: string, to: string): number | null {
+  const a = UNITS[from];
+  const b = UNITS[to];
+  if (!a || !b || a.dimension !== b.dimension) return null;
+  return (value * a.factor) / b.factor;
+}
+
+export function unitPrice(priceDollars: number, v: Pick<Variant, "size_value" | "size_unit">): UnitPrice | null {
+  const qty = toBaseQuantity(v.size_value, v.size_unit);
+  if (!qty) return null;
+
+  const per = PER[qty.dimension];
+  return {
+    dimension: qty.dimension,
+    cents: Math.round(((priceDollars * 100) / qty.amount) * per.amount * 100) / 100,
+    per: per.label,
+  };
+}
+
+export function formatUnitPrice(u: UnitPrice) {
+  return `${money(u.cents)}/${u.per}`;
+}
+
+export type SizeRank = { rank: number; of: number };
+
+// Rank the sizes of each product + brand by their best unit price, so the
+// 1.5L and 3L of the same juice can be compared. Only variants that are
+// priced and convertible take part; groups of one size get no rank.
+export function rankSizes(entries: { variant: Variant; bestPrice: number | null }[]) {
+  const groups = new Map<string, { id: string; cents: number }[]>();
+
+  for (const { variant: v, bestPrice } of entries) {
+    if (bestPrice == null) continue;
+    const u = unitPrice(bestPrice, v);
+    if (!u) continue;
+
+    const key = `${v.product_name}\u0000${v.brand_name}\u0000${u.dimension}`.toLowerCase();
+    const list = groups.get(key) ?? [];
+    list.push({ id: v.id, cents: u.cents });
+    groups.set(key, list);
+  }
+
+  const ranks = new Map<string, SizeRank>();
+  for (const list of groups.values()) {
+    if (list.length < 2) continue;
+    list.sort((a, b) => a.cents - b.cents);
+    list.forEach((item, i) => ranks.set(item.id, { rank: i + 1, of: list.length }));
+  }
+
+  return ranks;
+}
@@ -0,0 +1,62 @@
+import type { Kashrut } from "./kashrut";
+import type { Holiday } from "./seasons";
+
+export type Variant = Kashrut & {
+  id: string;
+  product_name: string;
+  brand_name: string;
+  // The product's category (see lib/categories.ts)
+  category_id: string | null;
+  size_value: number | null;
+  size_unit: string | null;
+  flavour: string | null;
+  // Holidays this is bought for (see lib/seasons.ts)
+  holidays: Holiday[];
+};
+
+export const VARIANT_SELECT =
+  "id, size_value, size_unit, flavour, hechshers, dietary, chalav_yisrael, pas_yisroel, kosher_for_passover, holidays, products(name, category_id), brands(name)";
+
+// VARIANT_SELECT with the product joined inner, so a query can filter on the
+// product's columns ("products.category_id")
+export const VARIANT_BY_PRODUCT_SELECT =
+  "id, size_value, size_unit, flavour, hechshers, dietary, chalav_yisrael, pas_yisroel, kosher_for_passover, holidays, products!inner(name, category_id), brands(name)";
+
+export type VariantRow = Kashrut & {
+  id: string;
+  size_value: number | null;
+  size_unit: string | null;
+  flavour: string | null;
+  holidays: Holiday[];
+  products: { name: string; category_id: string | null } | null;
+  brands: { name: string } | null;
+};
+
+export function mapVariantRow(v: VariantRow): Variant {
+  return {
+    id: v.id,
+    product_name: v.products?.name ?? "",
+    brand_name: v.brands?.name ?? "",
+    category_id: v.products?.category_id ?? null,
+    size_value: v.size_value,
+    size_unit: v.size_unit,
+    flavour: v.flavour,
+    hechshers: v.hechshers,
+    dietary: v.dietary,
+    chalav_yisrael: v.chalav_yisrael,
+    pas_yisroel: v.pas_yisroel,
+    kosher_for_passover: v.kosher_for_passover,
+    holidays: v.holidays,
+  };
+}
+
+export function variantSortKey(v: Variant) {
+  return `${v.product_name} ${v.brand_name} ${v.size_value ?? ""}${v.size_unit ?? ""} ${v.flavour ?? ""}`.toLowerCase();
+}
+
+export function variantLabel(v: Variant) {
+  const size = v.size_value != null && v.size_unit ? ` — ${v.size_value}${v.size_unit}` : "";
+  const flav = v.flavour ? ` — ${v.flavour}` : "";
+  // Product first, then brand, then size/flavour
+  return `${v.product_name} — ${v.brand_name}${size}${flav}`;
+}
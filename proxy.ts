@@ -1,7 +1,62 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { isModerator } from "./lib/auth";
+import { SUBMITTER_COOKIE } from "./lib/submitter";
 
-export function proxy(_req: NextRequest) {
-  return NextResponse.next();
+const MODERATOR_PATHS = ["/moderate"];
+
+export async function proxy(req: NextRequest) {
+  let res = NextResponse.next({ request: req });
+
+  // Refresh the Supabase session on every request and mirror any rotated
+  // auth cookies onto both the forwarded request and the response.
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return req.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => req.cookies.set(name, value));
+          res = NextResponse.next({ request: req });
+          cookiesToSet.forEach(({ name, value, options }) => res.cookies.set(name, value, options));
+        },
+      },
+    }
+  );
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname } = req.nextUrl;
+  if (MODERATOR_PATHS.some((p) => pathname === p || pathname.startsWith(`${p}/`))) {
+    if (!user) {
+      const login = req.nextUrl.clone();
+      login.pathname = "/login";
+      login.search = `?next=${encodeURIComponent(pathname)}`;
+      return NextResponse.redirect(login);
+    }
+
+    if (!isModerator(user)) {
+      return new NextResponse("Moderators only.", { status: 403 });
+    }
+  }
+
+  if (!req.cookies.get(SUBMITTER_COOKIE)) {
+    res.cookies.set(SUBMITTER_COOKIE, crypto.randomUUID(), {
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365,
+      sameSite: "lax",
+    });
+  }
+
+  return res;
 }
 
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
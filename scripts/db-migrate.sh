@@ -0,0 +1,37 @@
+#!/bin/sh
+# Apply supabase/migrations to a plain Postgres database, in order, skipping
+# the ones already applied. Versions are recorded in the same table the
+# Supabase CLI uses, so the database stays compatible with `supabase db push`.
+#
+#   DATABASE_URL=postgres://localhost/kosher_prices npm run db:migrate
+set -eu
+
+: "${DATABASE_URL:?Set DATABASE_URL, e.g. postgres://localhost/kosher_prices}"
+
+cd "$(dirname "$0")/.."
+
+psql() {
+  command psql "$DATABASE_URL" --quiet --no-psqlrc -v ON_ERROR_STOP=1 "$@"
+}
+
+psql -f supabase/local/bootstrap.sql
+psql -c "create schema if not exists supabase_migrations;
+  create table if not exists supabase_migrations.schema_migrations (version text primary key, name text);"
+
+for file in supabase/migrations/*.sql; do
+  base=$(basename "$file" .sql)
+  version=${base%%_*}
+  name=${base#*_}
+
+  applied=$(psql -tA -c "select 1 from supabase_migrations.schema_migrations where version = '$version'")
+  if [ -n "$applied" ]; then
+    continue
+  fi
+
+  echo "Applying $base"
+  {
+    cat "$file"
+    echo
+    echo "insert into supabase_migrations.schema_migrations (version, name) values ('$version', '$name');"
+  } | psql --single-transaction -f -
+done
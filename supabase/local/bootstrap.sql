@@ -0,0 +1,55 @@
+-- Minimal stand-in for the parts of Supabase the migrations rely on, so they
+-- run against a plain local Postgres (15+). Skip this file on a Supabase
+-- project or under `supabase start`, where all of it already exists.
+--
+-- PostgREST passes the caller's JWT claims in the `request.jwt.claims` setting;
+-- auth.uid() / auth.jwt() read them back the same way Supabase's versions do.
+-- To act as a user in psql:
+--
+--   set role authenticated;
+--   set request.jwt.claims = '{"sub": "<user id>", "app_metadata": {"role": "moderator"}}';
+
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then
+    create role anon nologin noinherit;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin noinherit;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'service_role') then
+    create role service_role nologin noinherit bypassrls;
+  end if;
+end
+$$;
+
+create schema if not exists auth;
+
+create table if not exists auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text unique,
+  raw_app_meta_data jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create or replace function auth.jwt() returns jsonb
+language sql stable
+as $$
+  select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+
+create or replace function auth.uid() returns uuid
+language sql stable
+as $$
+  select nullif(auth.jwt() ->> 'sub', '')::uuid
+$$;
+
+grant usage on schema auth to anon, authenticated, service_role;
+grant execute on all functions in schema auth to anon, authenticated, service_role;
+
+-- Supabase grants table access to the API roles by default and leaves the
+-- actual gatekeeping to row-level security. Mirror that here.
+grant usage on schema public to anon, authenticated, service_role;
+alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public grant all on sequences to anon, authenticated, service_role;
+alter default privileges in schema public grant execute on functions to anon, authenticated, service_role;
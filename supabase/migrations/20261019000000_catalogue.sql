@@ -0,0 +1,44 @@
+-- Stores and the product catalogue: a variant is one buyable thing
+-- (product + brand + size + flavour), and prices are recorded per variant.
+
+create table public.stores (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index stores_sort_order_idx on public.stores (sort_order);
+
+-- `name` is unique: /add-product upserts brands and products by name.
+create table public.brands (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (btrim(name) <> ''),
+  created_at timestamptz not null default now()
+);
+
+create table public.products (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (btrim(name) <> ''),
+  created_at timestamptz not null default now()
+);
+
+create table public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  brand_id uuid not null references public.brands (id) on delete cascade,
+  size_value numeric check (size_value > 0),
+  size_unit text check (size_unit in ('L', 'ml', 'kg', 'g', 'lb', 'oz', 'pack', 'each')),
+  flavour text,
+  notes text,
+  created_at timestamptz not null default now(),
+
+  -- A size needs a unit (a unit on its own is allowed, e.g. "each")
+  constraint product_variants_size_has_unit check (size_value is null or size_unit is not null),
+
+  -- /add-product relies on this to find the existing variant when an insert
+  -- collides, so a blank size or flavour has to count as a match.
+  constraint product_variants_identity_key unique nulls not distinct (product_id, brand_id, size_value, size_unit, flavour)
+);
+
+create index product_variants_brand_id_idx on public.product_variants (brand_id);
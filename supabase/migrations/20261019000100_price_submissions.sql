@@ -0,0 +1,53 @@
+-- Crowd-sourced prices. Every row is kept: the grid shows the latest approved
+-- regular and sale price per (variant, store), and history pages read the rest.
+
+create type public.price_type as enum ('regular', 'sale');
+
+create type public.rejection_reason as enum ('wrong_store', 'wrong_variant', 'typo', 'spam');
+
+create table public.price_submissions (
+  id uuid primary key default gen_random_uuid(),
+  store_id uuid not null references public.stores (id) on delete cascade,
+  variant_id uuid not null references public.product_variants (id) on delete cascade,
+  price_cents integer not null check (price_cents > 0),
+  price_type public.price_type not null,
+  -- Last day of a sale; null means "no end date given"
+  sale_end_date date,
+  created_at timestamptz not null default now(),
+
+  is_approved boolean not null default false,
+  -- Anonymous submitter id from the kp_submitter cookie
+  submitter_id uuid,
+
+  -- Moderation decision. reviewed_by stays null for auto-approvals.
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  rejection_reason public.rejection_reason,
+  -- Set when a moderator corrected the price before approving
+  original_price_cents integer check (original_price_cents > 0),
+
+  -- Outlier check at submission time (lib/outliers.ts)
+  outlier_confidence real check (outlier_confidence between 0 and 1),
+  outlier_flags text[],
+
+  constraint price_submissions_sale_end_date_check check (price_type = 'sale' or sale_end_date is null),
+  constraint price_submissions_rejection_check check (rejection_reason is null or not is_approved)
+);
+
+-- Latest price per (variant, store) and per-variant history
+create index price_submissions_variant_store_created_idx
+  on public.price_submissions (variant_id, store_id, created_at desc);
+
+-- Public reads filter on approval and sort newest-first
+create index price_submissions_approved_created_idx
+  on public.price_submissions (created_at desc)
+  where is_approved;
+
+-- The moderation queue
+create index price_submissions_pending_idx
+  on public.price_submissions (created_at)
+  where not is_approved and reviewed_at is null;
+
+create index price_submissions_submitter_idx
+  on public.price_submissions (submitter_id)
+  where submitter_id is not null;
@@ -0,0 +1,35 @@
+-- Price watches and the in-app inbox they feed (lib/alerts.ts).
+
+create type public.alert_kind as enum ('target', 'sale');
+
+create table public.watches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  variant_id uuid not null references public.product_variants (id) on delete cascade,
+  -- Alert when a price at or below this appears; null = no target
+  target_price_cents integer check (target_price_cents > 0),
+  notify_on_sale boolean not null default false,
+  created_at timestamptz not null default now(),
+
+  unique (user_id, variant_id)
+);
+
+create index watches_variant_id_idx on public.watches (variant_id);
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  watch_id uuid not null references public.watches (id) on delete cascade,
+  variant_id uuid not null references public.product_variants (id) on delete cascade,
+  submission_id uuid not null references public.price_submissions (id) on delete cascade,
+  kinds public.alert_kind[] not null check (cardinality(kinds) > 0),
+  message text not null,
+  created_at timestamptz not null default now(),
+  read_at timestamptz,
+  emailed_at timestamptz,
+
+  -- Re-approving a submission must not notify twice
+  unique (watch_id, submission_id)
+);
+
+create index notifications_user_created_idx on public.notifications (user_id, created_at desc);
@@ -0,0 +1,97 @@
+-- Row-level security for the tables the app reaches with the anon key.
+--
+-- These policies describe the app as it works today: the catalogue and
+-- submitted prices are public, anyone may add to the catalogue and submit a
+-- price, only moderators may review submissions, and watches/notifications
+-- belong to their user. Server code that acts for other users (alerts) uses
+-- the service role, which bypasses RLS.
+
+-- Moderators carry role = "moderator" in app_metadata (see lib/auth.ts). Only
+-- the service role can write app_metadata, so the claim can be trusted.
+create function public.is_moderator() returns boolean
+language sql stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'moderator'
+$$;
+
+alter table public.stores enable row level security;
+alter table public.brands enable row level security;
+alter table public.products enable row level security;
+alter table public.product_variants enable row level security;
+alter table public.price_submissions enable row level security;
+alter table public.watches enable row level security;
+alter table public.notifications enable row level security;
+
+-- Stores: read-only through the API
+create policy "stores are public"
+  on public.stores for select
+  using (true);
+
+-- Catalogue: public, and anyone may add to it. /add-product upserts brands and
+-- products by name, and an upsert needs update rights as well as insert.
+create policy "brands are public"
+  on public.brands for select
+  using (true);
+
+create policy "anyone can add brands"
+  on public.brands for insert
+  with check (true);
+
+create policy "anyone can upsert brands"
+  on public.brands for update
+  using (true)
+  with check (true);
+
+create policy "products are public"
+  on public.products for select
+  using (true);
+
+create policy "anyone can add products"
+  on public.products for insert
+  with check (true);
+
+create policy "anyone can upsert products"
+  on public.products for update
+  using (true)
+  with check (true);
+
+create policy "variants are public"
+  on public.product_variants for select
+  using (true);
+
+create policy "anyone can add variants"
+  on public.product_variants for insert
+  with check (true);
+
+-- Price submissions
+create policy "submissions are readable"
+  on public.price_submissions for select
+  using (true);
+
+create policy "anyone can submit prices"
+  on public.price_submissions for insert
+  with check (reviewed_by is null);
+
+create policy "moderators review submissions"
+  on public.price_submissions for update
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+-- Watches: private to their user
+create policy "users manage their own watches"
+  on public.watches for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Notifications: written by the service role, read and marked read by their user
+create policy "users read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "users mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,70 @@
+-- Narrow the original policies to the app's trust model:
+--
+-- * Anyone (signed in or not) may propose catalogue entries and submit prices,
+--   but a submission always arrives pending and unreviewed.
+-- * Only moderators publish: approving, rejecting and correcting prices, and
+--   editing or removing catalogue entries and stores.
+-- * Other people's pending and rejected submissions are not readable.
+--   The grid shows a submitter their own pending rows by reading server-side
+--   with the service role (see app/api/prices/route.ts).
+-- * Auto-approved prices and alert notifications are written by server code
+--   with the service role, which bypasses RLS.
+
+-- Catalogue: inserts only. /add-product no longer upserts, so nobody but a
+-- moderator needs to update (i.e. rename) an existing brand or product.
+drop policy "anyone can upsert brands" on public.brands;
+drop policy "anyone can upsert products" on public.products;
+
+create policy "moderators edit stores"
+  on public.stores for all
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create policy "moderators edit brands"
+  on public.brands for update
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create policy "moderators delete brands"
+  on public.brands for delete
+  using (public.is_moderator());
+
+create policy "moderators edit products"
+  on public.products for update
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create policy "moderators delete products"
+  on public.products for delete
+  using (public.is_moderator());
+
+create policy "moderators edit variants"
+  on public.product_variants for update
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create policy "moderators delete variants"
+  on public.product_variants for delete
+  using (public.is_moderator());
+
+-- Price submissions
+drop policy "submissions are readable" on public.price_submissions;
+drop policy "anyone can submit prices" on public.price_submissions;
+
+create policy "approved submissions are public"
+  on public.price_submissions for select
+  using (is_approved or public.is_moderator());
+
+create policy "anyone can submit pending prices"
+  on public.price_submissions for insert
+  with check (
+    not is_approved
+    and reviewed_by is null
+    and reviewed_at is null
+    and rejection_reason is null
+    and original_price_cents is null
+  );
+
+-- Notifications: the owner may only mark them read
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
@@ -0,0 +1,9 @@
+-- UPC/EAN on variants, so a scanned pack leads straight to its variant.
+-- Stored normalised by lib/barcode.ts: digits only, UPC-A widened to EAN-13.
+
+alter table public.product_variants
+  add column barcode text
+    constraint product_variants_barcode_format check (barcode ~ '^([0-9]{8}|[0-9]{13}|[0-9]{14})$');
+
+alter table public.product_variants
+  add constraint product_variants_barcode_key unique (barcode);
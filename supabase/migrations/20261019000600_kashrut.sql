@@ -0,0 +1,15 @@
+-- Kashrut attributes on variants. A pack can carry more than one hechsher
+-- ("COR", "OU"), stored as written in lib/kashrut.ts.
+
+create type public.dietary_type as enum ('dairy', 'meat', 'pareve');
+
+alter table public.product_variants
+  add column hechshers text[] not null default '{}',
+  add column dietary public.dietary_type,
+  add column chalav_yisrael boolean not null default false,
+  add column pas_yisroel boolean not null default false,
+  add column kosher_for_passover boolean not null default false;
+
+-- Chalav Yisrael is a dairy certification
+alter table public.product_variants
+  add constraint product_variants_chalav_yisrael_dairy check (not chalav_yisrael or dietary = 'dairy');
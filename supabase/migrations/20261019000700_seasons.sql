@@ -0,0 +1,33 @@
+-- Holiday shopping seasons ("Pesach 2027") and the variants that matter for
+-- each holiday. A season's dates are the shopping window, not the holiday
+-- itself: Pesach buying starts weeks before the Seder.
+
+create type public.holiday as enum ('pesach', 'shavuot', 'rosh_hashanah', 'sukkot', 'chanukah', 'purim');
+
+create table public.seasons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (btrim(name) <> ''),
+  holiday public.holiday not null,
+  starts_on date not null,
+  ends_on date not null,
+  created_at timestamptz not null default now(),
+  constraint seasons_dates check (ends_on >= starts_on)
+);
+
+-- "Last season" is the previous season of the same holiday
+create index seasons_holiday_starts_on_idx on public.seasons (holiday, starts_on);
+
+-- Holidays a variant is bought for, independent of any one year
+alter table public.product_variants
+  add column holidays public.holiday[] not null default '{}';
+
+alter table public.seasons enable row level security;
+
+create policy "seasons are public"
+  on public.seasons for select
+  using (true);
+
+create policy "moderators edit seasons"
+  on public.seasons for all
+  using (public.is_moderator())
+  with check (public.is_moderator());
@@ -0,0 +1,15 @@
+-- Store details for the stores admin (/moderate/stores), and an active flag so
+-- a closed location can be retired without losing its price history.
+--
+-- `hours` maps "sun".."sat" to {"open": "HH:MM", "close": "HH:MM"}, or null
+-- when closed that day; a missing day means unknown (see lib/stores.ts).
+
+alter table public.stores
+  add column address text,
+  add column neighbourhood text,
+  add column website text check (website ~* '^https?://'),
+  add column hours jsonb not null default '{}' check (jsonb_typeof(hours) = 'object'),
+  add column closed_shabbos boolean not null default false,
+  add column closed_yom_tov boolean not null default false,
+  add column hours_note text,
+  add column is_active boolean not null default true;
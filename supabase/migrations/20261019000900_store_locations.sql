@@ -0,0 +1,7 @@
+-- Store coordinates (WGS 84) for the map and the "near me" filter. A store
+-- has both or neither.
+
+alter table public.stores
+  add column latitude double precision check (latitude between -90 and 90),
+  add column longitude double precision check (longitude between -180 and 180),
+  add constraint stores_location_complete check ((latitude is null) = (longitude is null));
@@ -0,0 +1,58 @@
+-- Catalogue entries (brands, products, variants) added by the public start
+-- pending and only reach the grid, search and /add once a moderator approves
+-- them. A moderator can also reject one, or mark it as a duplicate of an
+-- existing entry; duplicates keep a pointer so later lookups by the same name
+-- land on the original, which can't be deleted while any point at it.
+--
+-- Entries stay readable while pending: /add-product looks brands and products
+-- up by their unique name, and the app filters on status where it lists them.
+
+create type public.catalogue_status as enum ('pending', 'approved', 'rejected', 'duplicate');
+
+-- Everything already in the catalogue counts as reviewed; new rows start pending.
+alter table public.brands
+  add column status public.catalogue_status not null default 'approved',
+  add column duplicate_of uuid references public.brands (id) on delete restrict,
+  add column reviewed_by uuid references auth.users (id) on delete set null,
+  add column reviewed_at timestamptz,
+  add constraint brands_duplicate_check check ((status = 'duplicate') = (duplicate_of is not null) and duplicate_of <> id);
+
+alter table public.products
+  add column status public.catalogue_status not null default 'approved',
+  add column duplicate_of uuid references public.products (id) on delete restrict,
+  add column reviewed_by uuid references auth.users (id) on delete set null,
+  add column reviewed_at timestamptz,
+  add constraint products_duplicate_check check ((status = 'duplicate') = (duplicate_of is not null) and duplicate_of <> id);
+
+alter table public.product_variants
+  add column status public.catalogue_status not null default 'approved',
+  add column duplicate_of uuid references public.product_variants (id) on delete restrict,
+  add column reviewed_by uuid references auth.users (id) on delete set null,
+  add column reviewed_at timestamptz,
+  add constraint product_variants_duplicate_check check ((status = 'duplicate') = (duplicate_of is not null) and duplicate_of <> id);
+
+alter table public.brands alter column status set default 'pending';
+alter table public.products alter column status set default 'pending';
+alter table public.product_variants alter column status set default 'pending';
+
+-- The catalogue queue
+create index brands_pending_idx on public.brands (created_at) where status = 'pending';
+create index products_pending_idx on public.products (created_at) where status = 'pending';
+create index product_variants_pending_idx on public.product_variants (created_at) where status = 'pending';
+
+-- The public may only propose entries, never publish them
+drop policy "anyone can add brands" on public.brands;
+drop policy "anyone can add products" on public.products;
+drop policy "anyone can add variants" on public.product_variants;
+
+create policy "anyone can propose brands"
+  on public.brands for insert
+  with check (status = 'pending' and duplicate_of is null and reviewed_by is null and reviewed_at is null);
+
+create policy "anyone can propose products"
+  on public.products for insert
+  with check (status = 'pending' and duplicate_of is null and reviewed_by is null and reviewed_at is null);
+
+create policy "anyone can propose variants"
+  on public.product_variants for insert
+  with check (status = 'pending' and duplicate_of is null and reviewed_by is null and reviewed_at is null);
@@ -0,0 +1,183 @@
+-- Audit log of catalogue merges: a duplicate brand, product or variant folded
+-- into the entry that survives (see mergeCatalogueEntries in
+-- app/moderate/actions.ts). The merged entry itself stays, marked
+-- status = 'duplicate' with duplicate_of pointing at the survivor; this
+-- table records who did it, when, and what moved.
+
+create type public.catalogue_kind as enum ('brand', 'product', 'variant');
+
+create table public.catalogue_merges (
+  id uuid primary key default gen_random_uuid(),
+  kind public.catalogue_kind not null,
+  -- Ids in brands, products or product_variants, depending on `kind`
+  from_id uuid not null,
+  into_id uuid not null,
+  -- Labels as they read at the time, so the log survives later renames
+  from_label text not null,
+  into_label text not null,
+  moved_variants integer not null default 0 check (moved_variants >= 0),
+  moved_submissions integer not null default 0 check (moved_submissions >= 0),
+  merged_by uuid references auth.users (id) on delete set null,
+  merged_at timestamptz not null default now(),
+  constraint catalogue_merges_distinct check (from_id <> into_id)
+);
+
+create index catalogue_merges_merged_at_idx on public.catalogue_merges (merged_at desc);
+
+alter table public.catalogue_merges enable row level security;
+
+create policy "moderators read merges"
+  on public.catalogue_merges for select
+  using (public.is_moderator());
+
+create policy "moderators record merges"
+  on public.catalogue_merges for insert
+  with check (public.is_moderator() and merged_by = auth.uid());
+
+-- A merge is one call to merge_catalogue_entries, which makes every move or
+-- none, so a failure half way never leaves prices, watches and variants split
+-- between the two entries with nothing in the log. Security definer so that
+-- it can move other users' watches; it checks for a moderator itself.
+
+-- Folds variant `duplicate` into `survivor`: its prices (approved or not) and
+-- watches move over, and so does its barcode if the survivor has none.
+-- Someone already watching the survivor keeps that watch. Returns how many
+-- prices moved. Only called by merge_catalogue_entries.
+create function public.absorb_variant(duplicate uuid, survivor uuid, moderator uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  code text;
+  moved integer;
+begin
+  update public.price_submissions set variant_id = survivor where variant_id = duplicate;
+  get diagnostics moved = row_count;
+
+  delete from public.watches w
+  where w.variant_id = duplicate
+    and exists (select 1 from public.watches s where s.user_id = w.user_id and s.variant_id = survivor);
+  update public.watches set variant_id = survivor where variant_id = duplicate;
+
+  select barcode into code from public.product_variants where id = duplicate;
+
+  -- The barcode is unique, so it's cleared here before the survivor takes it
+  update public.product_variants
+  set status = 'duplicate', duplicate_of = survivor, reviewed_by = moderator, reviewed_at = now(), barcode = null
+  where id = duplicate;
+
+  if code is not null then
+    update public.product_variants set barcode = code where id = survivor and barcode is null;
+  end if;
+
+  return moved;
+end
+$$;
+
+revoke execute on function public.absorb_variant(uuid, uuid, uuid) from public, anon, authenticated;
+
+-- Folds `entry_id` into `survivor_id`, which must be approved. The duplicate
+-- is hidden and points at the survivor, everything filed under it moves
+-- across, and the merge is logged in catalogue_merges. A product's or brand's
+-- variant that the survivor already has (same brand, size and flavour) is
+-- folded into that one instead. The labels are how both entries read in the
+-- log.
+create function public.merge_catalogue_entries(
+  entry_kind public.catalogue_kind,
+  entry_id uuid,
+  survivor_id uuid,
+  entry_label text,
+  survivor_label text
+)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  moderator uuid := auth.uid();
+  entry_status public.catalogue_status;
+  survivor_status public.catalogue_status;
+  v record;
+  existing record;
+  n_variants integer := 0;
+  n_submissions integer := 0;
+begin
+  if not public.is_moderator() then
+    raise exception 'Only moderators can do that.' using errcode = '42501';
+  end if;
+  if entry_id = survivor_id then
+    raise exception 'An entry can’t be merged into itself.';
+  end if;
+
+  -- Locked, so two moderators can't merge the same entries at once
+  if entry_kind = 'brand' then
+    select status into entry_status from public.brands where id = entry_id for update;
+    select status into survivor_status from public.brands where id = survivor_id for update;
+  elsif entry_kind = 'product' then
+    select status into entry_status from public.products where id = entry_id for update;
+    select status into survivor_status from public.products where id = survivor_id for update;
+  else
+    select status into entry_status from public.product_variants where id = entry_id for update;
+    select status into survivor_status from public.product_variants where id = survivor_id for update;
+  end if;
+
+  if entry_status is null then
+    raise exception 'That entry no longer exists.';
+  elsif entry_status = 'duplicate' then
+    raise exception 'That entry has already been merged.';
+  elsif survivor_status is distinct from 'approved' then
+    raise exception 'Entries can only be merged into an approved one.';
+  end if;
+
+  if entry_kind = 'variant' then
+    n_submissions := public.absorb_variant(entry_id, survivor_id, moderator);
+  else
+    for v in
+      select id, product_id, brand_id, size_value, size_unit, flavour
+      from public.product_variants
+      where (case entry_kind when 'brand' then brand_id else product_id end) = entry_id
+        and status <> 'duplicate'
+      for update
+    loop
+      n_variants := n_variants + 1;
+
+      select w.id, w.duplicate_of into existing
+      from public.product_variants w
+      where w.product_id = (case entry_kind when 'product' then survivor_id else v.product_id end)
+        and w.brand_id = (case entry_kind when 'brand' then survivor_id else v.brand_id end)
+        and w.size_value is not distinct from v.size_value
+        and w.size_unit is not distinct from v.size_unit
+        and w.flavour is not distinct from v.flavour;
+
+      if found then
+        n_submissions := n_submissions + public.absorb_variant(v.id, coalesce(existing.duplicate_of, existing.id), moderator);
+      elsif entry_kind = 'brand' then
+        update public.product_variants set brand_id = survivor_id where id = v.id;
+      else
+        update public.product_variants set product_id = survivor_id where id = v.id;
+      end if;
+    end loop;
+
+    if entry_kind = 'brand' then
+      update public.brands
+      set status = 'duplicate', duplicate_of = survivor_id, reviewed_by = moderator, reviewed_at = now()
+      where id = entry_id;
+    else
+      update public.products
+      set status = 'duplicate', duplicate_of = survivor_id, reviewed_by = moderator, reviewed_at = now()
+      where id = entry_id;
+    end if;
+  end if;
+
+  insert into public.catalogue_merges
+    (kind, from_id, into_id, from_label, into_label, moved_variants, moved_submissions, merged_by)
+  values
+    (entry_kind, entry_id, survivor_id, entry_label, survivor_label, n_variants, n_submissions, moderator);
+end
+$$;
+
+revoke execute on function public.merge_catalogue_entries(public.catalogue_kind, uuid, uuid, text, text) from public, anon;
+grant execute on function public.merge_catalogue_entries(public.catalogue_kind, uuid, uuid, text, text) to authenticated;
@@ -0,0 +1,107 @@
+-- Moderators can correct catalogue entries after the fact (rename a product
+-- or brand; fix a variant's size, flavour, kashrut and so on) and archive
+-- discontinued variants. Every edit is kept in catalogue_edits.
+
+-- Archived variants drop out of the grid, search and /add, but their pages
+-- and price history stay readable. Null = still sold.
+alter table public.product_variants
+  add column archived_at timestamptz;
+
+create table public.catalogue_edits (
+  id uuid primary key default gen_random_uuid(),
+  kind public.catalogue_kind not null,
+  -- Id in brands, products or product_variants, depending on `kind`
+  entry_id uuid not null,
+  -- { "<column>": { "from": <old value>, "to": <new value> }, ... }
+  changes jsonb not null check (jsonb_typeof(changes) = 'object' and changes <> '{}'),
+  edited_by uuid references auth.users (id) on delete set null,
+  edited_at timestamptz not null default now()
+);
+
+create index catalogue_edits_entry_idx on public.catalogue_edits (entry_id, edited_at desc);
+
+alter table public.catalogue_edits enable row level security;
+
+create policy "moderators read edits"
+  on public.catalogue_edits for select
+  using (public.is_moderator());
+
+create policy "moderators record edits"
+  on public.catalogue_edits for insert
+  with check (public.is_moderator() and edited_by = auth.uid());
+
+-- An edit and its catalogue_edits entry are saved in one call to
+-- edit_catalogue_entry, which does both or neither, so a failed log never
+-- keeps an edit with no history.
+--
+-- `patch` holds the new column values (only these change); `changes` is the
+-- catalogue_edits entry ({ "<column>": { "from": ..., "to": ... } }). A patch
+-- that changes nothing writes nothing and logs nothing. Security invoker, so
+-- RLS still decides: only moderators may edit and log.
+create function public.edit_catalogue_entry(
+  entry_kind public.catalogue_kind,
+  entry_id uuid,
+  patch jsonb,
+  changes jsonb
+)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  b public.brands;
+  p public.products;
+  v public.product_variants;
+begin
+  if not public.is_moderator() then
+    raise exception 'Only moderators can do that.' using errcode = '42501';
+  end if;
+
+  if entry_kind = 'brand' then
+    select * into b from public.brands where id = entry_id for update;
+    if not found then
+      raise exception 'That brand no longer exists.';
+    end if;
+
+    update public.brands t
+    set name = n.name
+    from jsonb_populate_record(b, patch) n
+    where t.id = entry_id and (t.name) is distinct from (n.name);
+  elsif entry_kind = 'product' then
+    select * into p from public.products where id = entry_id for update;
+    if not found then
+      raise exception 'That product no longer exists.';
+    end if;
+
+    update public.products t
+    set name = n.name
+    from jsonb_populate_record(p, patch) n
+    where t.id = entry_id and (t.name) is distinct from (n.name);
+  else
+    select * into v from public.product_variants where id = entry_id for update;
+    if not found then
+      raise exception 'That variant no longer exists.';
+    end if;
+
+    update public.product_variants t
+    set product_id = n.product_id, brand_id = n.brand_id, size_value = n.size_value, size_unit = n.size_unit,
+      flavour = n.flavour, notes = n.notes, barcode = n.barcode, hechshers = n.hechshers, dietary = n.dietary,
+      chalav_yisrael = n.chalav_yisrael, pas_yisroel = n.pas_yisroel, kosher_for_passover = n.kosher_for_passover,
+      holidays = n.holidays, archived_at = n.archived_at
+    from jsonb_populate_record(v, patch) n
+    where t.id = entry_id
+      and (t.product_id, t.brand_id, t.size_value, t.size_unit, t.flavour, t.notes, t.barcode, t.hechshers, t.dietary,
+        t.chalav_yisrael, t.pas_yisroel, t.kosher_for_passover, t.holidays, t.archived_at)
+      is distinct from (n.product_id, n.brand_id, n.size_value, n.size_unit, n.flavour, n.notes, n.barcode, n.hechshers,
+        n.dietary, n.chalav_yisrael, n.pas_yisroel, n.kosher_for_passover, n.holidays, n.archived_at);
+  end if;
+
+  if found then
+    insert into public.catalogue_edits (kind, entry_id, changes, edited_by)
+    values (entry_kind, entry_id, changes, auth.uid());
+  end if;
+end
+$$;
+
+revoke execute on function public.edit_catalogue_entry(public.catalogue_kind, uuid, jsonb, jsonb) from public, anon;
+grant execute on function public.edit_catalogue_entry(public.catalogue_kind, uuid, jsonb, jsonb) to authenticated;
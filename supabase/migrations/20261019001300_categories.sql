@@ -0,0 +1,137 @@
+-- Product categories: a tree ("Dairy" > "Cheese") that /add-product files
+-- new products under and the grid groups, filters and summarises by.
+
+create table public.categories (
+  id uuid primary key default gen_random_uuid(),
+  -- Null for a top-level category
+  parent_id uuid references public.categories (id) on delete restrict,
+  name text not null check (btrim(name) <> ''),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint categories_name_key unique nulls not distinct (parent_id, name),
+  constraint categories_parent_check check (parent_id <> id)
+);
+
+create index categories_parent_id_idx on public.categories (parent_id, sort_order);
+
+-- Null = not filed yet; the grid lists those last, as "Other"
+alter table public.products
+  add column category_id uuid references public.categories (id) on delete set null;
+
+create index products_category_id_idx on public.products (category_id);
+
+alter table public.categories enable row level security;
+
+create policy "categories are public"
+  on public.categories for select
+  using (true);
+
+create policy "moderators edit categories"
+  on public.categories for all
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+-- The starting tree
+insert into public.categories (name, sort_order) values
+  ('Dairy', 10),
+  ('Meat', 20),
+  ('Fish', 30),
+  ('Wine & Grape Juice', 40),
+  ('Bakery', 50),
+  ('Pantry', 60),
+  ('Snacks & Sweets', 70),
+  ('Frozen', 80),
+  ('Beverages', 90),
+  ('Produce', 100),
+  ('Pesach', 110);
+
+insert into public.categories (parent_id, name, sort_order)
+select parent.id, v.name, v.sort_order
+from (values
+  ('Dairy', 'Milk', 10),
+  ('Dairy', 'Cheese', 20),
+  ('Dairy', 'Yogurt', 30),
+  ('Dairy', 'Butter & Cream', 40),
+  ('Meat', 'Beef', 10),
+  ('Meat', 'Poultry', 20),
+  ('Meat', 'Deli', 30),
+  ('Fish', 'Fresh & Frozen Fish', 10),
+  ('Fish', 'Canned & Jarred Fish', 20),
+  ('Bakery', 'Bread', 10),
+  ('Bakery', 'Cakes & Cookies', 20),
+  ('Pantry', 'Oils & Vinegar', 10),
+  ('Pantry', 'Pasta & Noodles', 20),
+  ('Pantry', 'Soups & Mixes', 30),
+  ('Pantry', 'Canned Goods', 40),
+  ('Snacks & Sweets', 'Chips', 10),
+  ('Snacks & Sweets', 'Chocolate & Candy', 20),
+  ('Pesach', 'Matzo', 10)
+) as v (parent, name, sort_order)
+join public.categories parent on parent.name = v.parent and parent.parent_id is null;
+
+-- Refiling a product is a catalogue edit like any other, so
+-- edit_catalogue_entry now also writes products.category_id.
+create or replace function public.edit_catalogue_entry(
+  entry_kind public.catalogue_kind,
+  entry_id uuid,
+  patch jsonb,
+  changes jsonb
+)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  b public.brands;
+  p public.products;
+  v public.product_variants;
+begin
+  if not public.is_moderator() then
+    raise exception 'Only moderators can do that.' using errcode = '42501';
+  end if;
+
+  if entry_kind = 'brand' then
+    select * into b from public.brands where id = entry_id for update;
+    if not found then
+      raise exception 'That brand no longer exists.';
+    end if;
+
+    update public.brands t
+    set name = n.name
+    from jsonb_populate_record(b, patch) n
+    where t.id = entry_id and (t.name) is distinct from (n.name);
+  elsif entry_kind = 'product' then
+    select * into p from public.products where id = entry_id for update;
+    if not found then
+      raise exception 'That product no longer exists.';
+    end if;
+
+    update public.products t
+    set name = n.name, category_id = n.category_id
+    from jsonb_populate_record(p, patch) n
+    where t.id = entry_id and (t.name, t.category_id) is distinct from (n.name, n.category_id);
+  else
+    select * into v from public.product_variants where id = entry_id for update;
+    if not found then
+      raise exception 'That variant no longer exists.';
+    end if;
+
+    update public.product_variants t
+    set product_id = n.product_id, brand_id = n.brand_id, size_value = n.size_value, size_unit = n.size_unit,
+      flavour = n.flavour, notes = n.notes, barcode = n.barcode, hechshers = n.hechshers, dietary = n.dietary,
+      chalav_yisrael = n.chalav_yisrael, pas_yisroel = n.pas_yisroel, kosher_for_passover = n.kosher_for_passover,
+      holidays = n.holidays, archived_at = n.archived_at
+    from jsonb_populate_record(v, patch) n
+    where t.id = entry_id
+      and (t.product_id, t.brand_id, t.size_value, t.size_unit, t.flavour, t.notes, t.barcode, t.hechshers, t.dietary,
+        t.chalav_yisrael, t.pas_yisroel, t.kosher_for_passover, t.holidays, t.archived_at)
+      is distinct from (n.product_id, n.brand_id, n.size_value, n.size_unit, n.flavour, n.notes, n.barcode, n.hechshers,
+        n.dietary, n.chalav_yisrael, n.pas_yisroel, n.kosher_for_passover, n.holidays, n.archived_at);
+  end if;
+
+  if found then
+    insert into public.catalogue_edits (kind, entry_id, changes, edited_by)
+    values (entry_kind, entry_id, changes, auth.uid());
+  end if;
+end
+$$;
@@ -0,0 +1,47 @@
+-- The latest regular and latest sale price per (variant, store), worked out
+-- here rather than by pulling every visible submission into the server
+-- (see latestPrices in lib/data.ts).
+--
+-- Visible rows are the approved ones, plus `submitter`'s own rows still
+-- awaiting review (a submitter sees their pending prices on the grid).
+-- `created_from` and `created_before` limit it to submissions made in that
+-- range (a season); `variant_ids` to those variants (an ids list, a
+-- category), so /api/prices only reads the prices it was asked for.
+--
+-- Security invoker, and only the service role may call it: the caller passes
+-- the submitter id from their cookie, which only the server can vouch for.
+
+create function public.latest_prices(
+  submitter uuid default null,
+  created_from timestamptz default null,
+  created_before timestamptz default null,
+  variant_ids uuid[] default null
+)
+returns table (
+  id uuid,
+  store_id uuid,
+  variant_id uuid,
+  price_cents integer,
+  price_type public.price_type,
+  sale_end_date date,
+  created_at timestamptz,
+  is_approved boolean
+)
+language sql stable
+as $$
+  select distinct on (s.variant_id, s.store_id, s.price_type)
+    s.id, s.store_id, s.variant_id, s.price_cents, s.price_type, s.sale_end_date, s.created_at, s.is_approved
+  from public.price_submissions s
+  where (s.is_approved or (s.submitter_id = submitter and s.reviewed_at is null))
+    and (created_from is null or s.created_at >= created_from)
+    and (created_before is null or s.created_at < created_before)
+    and (variant_ids is null or s.variant_id = any (variant_ids))
+  order by s.variant_id, s.store_id, s.price_type, s.created_at desc, s.id
+$$;
+
+-- Backs the distinct on above
+create index price_submissions_latest_idx
+  on public.price_submissions (variant_id, store_id, price_type, created_at desc);
+
+revoke execute on function public.latest_prices(uuid, timestamptz, timestamptz, uuid[]) from public, anon, authenticated;
+grant execute on function public.latest_prices(uuid, timestamptz, timestamptz, uuid[]) to service_role;
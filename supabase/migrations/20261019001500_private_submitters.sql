@@ -0,0 +1,69 @@
+-- Who submitted a price is no longer public. Approved submissions are
+-- readable by anyone, and with them their submitter_id: enough to follow one
+-- person's shopping from store to store, and to pass as them (the cookie id
+-- is what shows a submitter their own pending prices).
+--
+-- The id moves to its own table that only moderators can read (the queue
+-- filters by it). Nobody may write it through the API: the server stamps it
+-- with the service role from the submitter's cookie (see insertSubmissions in
+-- lib/data.ts), so a client can't file prices under someone else's id.
+
+create table public.submission_submitters (
+  submission_id uuid primary key references public.price_submissions (id) on delete cascade,
+  -- Anonymous submitter id from the kp_submitter cookie
+  submitter_id uuid not null
+);
+
+create index submission_submitters_submitter_idx on public.submission_submitters (submitter_id);
+
+insert into public.submission_submitters (submission_id, submitter_id)
+select id, submitter_id
+from public.price_submissions
+where submitter_id is not null;
+
+alter table public.price_submissions drop column submitter_id;
+
+alter table public.submission_submitters enable row level security;
+
+create policy "moderators read submitters"
+  on public.submission_submitters for select
+  using (public.is_moderator());
+
+-- Same rule as before: approved rows, plus `submitter`'s own rows still
+-- awaiting review.
+create or replace function public.latest_prices(
+  submitter uuid default null,
+  created_from timestamptz default null,
+  created_before timestamptz default null,
+  variant_ids uuid[] default null
+)
+returns table (
+  id uuid,
+  store_id uuid,
+  variant_id uuid,
+  price_cents integer,
+  price_type public.price_type,
+  sale_end_date date,
+  created_at timestamptz,
+  is_approved boolean
+)
+language sql stable
+as $$
+  select distinct on (s.variant_id, s.store_id, s.price_type)
+    s.id, s.store_id, s.variant_id, s.price_cents, s.price_type, s.sale_end_date, s.created_at, s.is_approved
+  from public.price_submissions s
+  where (
+      s.is_approved
+      or (
+        s.reviewed_at is null
+        and exists (
+          select 1 from public.submission_submitters w
+          where w.submission_id = s.id and w.submitter_id = submitter
+        )
+      )
+    )
+    and (created_from is null or s.created_at >= created_from)
+    and (created_before is null or s.created_at < created_before)
+    and (variant_ids is null or s.variant_id = any (variant_ids))
+  order by s.variant_id, s.store_id, s.price_type, s.created_at desc, s.id
+$$;
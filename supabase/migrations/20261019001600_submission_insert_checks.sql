@@ -0,0 +1,35 @@
+-- A price sent straight to the API (with the anon key, not through the app's
+-- server) could still set columns only the server should: a created_at in
+-- 2099 stays the latest price forever once approved, and the outlier score is
+-- what auto-approval and the queue's "flagged" filter go by. It could also
+-- price an archived variant or a store that's no longer taking prices, which
+-- submitPrice (app/actions.ts) refuses.
+--
+-- The server now writes every submission with the service role, so these
+-- rules only bind direct API writes.
+
+drop policy "anyone can submit pending prices" on public.price_submissions;
+
+create policy "anyone can submit pending prices"
+  on public.price_submissions for insert
+  with check (
+    not is_approved
+    and reviewed_by is null
+    and reviewed_at is null
+    and rejection_reason is null
+    and original_price_cents is null
+    and outlier_confidence is null
+    and outlier_flags is null
+    -- The default, give or take a client's clock
+    and created_at between now() - interval '1 minute' and now() + interval '1 minute'
+    and exists (
+      select 1 from public.stores st
+      where st.id = price_submissions.store_id and st.is_active
+    )
+    and exists (
+      select 1 from public.product_variants v
+      where v.id = price_submissions.variant_id
+        and v.status in ('approved', 'pending')
+        and v.archived_at is null
+    )
+  );
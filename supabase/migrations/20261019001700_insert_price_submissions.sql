@@ -0,0 +1,35 @@
+-- A confirmed receipt is saved in one go. submitPrices (app/actions.ts) used
+-- to insert its lines one request at a time, so a failure on line 7 kept
+-- lines 1-6 while telling the user the receipt failed, and sending it again
+-- saved those six twice. insert_price_submissions writes every line, and who
+-- sent them, in one transaction.
+--
+-- `submissions` is a JSON array of price_submissions rows as the server
+-- scored them (id, store_id, variant_id, price_cents, price_type,
+-- sale_end_date, is_approved, outlier_confidence, outlier_flags). An
+-- auto-approved row is reviewed now, with no moderator.
+--
+-- Only the service role may call it: it writes approved rows and submitters.
+
+create function public.insert_price_submissions(submissions jsonb, submitter uuid default null)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.price_submissions
+    (id, store_id, variant_id, price_cents, price_type, sale_end_date, is_approved, reviewed_at, outlier_confidence, outlier_flags)
+  select
+    s.id, s.store_id, s.variant_id, s.price_cents, s.price_type, s.sale_end_date, s.is_approved,
+    case when s.is_approved then now() end, s.outlier_confidence, s.outlier_flags
+  from jsonb_populate_recordset(null::public.price_submissions, submissions) s;
+
+  if submitter is not null then
+    insert into public.submission_submitters (submission_id, submitter_id)
+    select s.id, submitter
+    from jsonb_populate_recordset(null::public.price_submissions, submissions) s;
+  end if;
+end
+$$;
+
+revoke execute on function public.insert_price_submissions(jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.insert_price_submissions(jsonb, uuid) to service_role;
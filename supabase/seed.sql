@@ -0,0 +1,237 @@
+-- Sample data for local development: Toronto-area stores, a small kosher
+-- catalogue and a few weeks of approved prices. Safe to run more than once.
+
+insert into public.stores (name, sort_order) values
+  ('Sobeys Clark & Hilda', 10),
+  ('No Frills Bathurst & Steeles', 20),
+  ('Metro Bathurst & Lawrence', 30),
+  ('Walmart Promenade', 40),
+  ('Kosher City Plus', 50),
+  ('Costco Thornhill', 60)
+on conflict (name) do nothing;
+
+-- Neighbourhoods, and sample hours for a store that closes for Shabbos and Yom Tov
+update public.stores st
+set neighbourhood = v.neighbourhood,
+    hours = v.hours::jsonb,
+    closed_shabbos = v.closed_shabbos,
+    closed_yom_tov = v.closed_yom_tov,
+    hours_note = v.hours_note
+from (values
+  ('Sobeys Clark & Hilda', 'Thornhill', '{}', false, false, null),
+  ('No Frills Bathurst & Steeles', 'Bathurst Manor', '{}', false, false, null),
+  ('Metro Bathurst & Lawrence', 'Lawrence Heights', '{}', false, false, null),
+  ('Walmart Promenade', 'Thornhill', '{}', false, false, null),
+  ('Kosher City Plus', 'Bathurst & Wilson',
+   '{"sun": {"open": "08:00", "close": "20:00"}, "mon": {"open": "08:00", "close": "21:00"},
+     "tue": {"open": "08:00", "close": "21:00"}, "wed": {"open": "08:00", "close": "21:00"},
+     "thu": {"open": "08:00", "close": "22:00"}, "fri": {"open": "07:00", "close": "14:00"}, "sat": null}',
+   true, true, 'Fridays close two hours before candle lighting in winter'),
+  ('Costco Thornhill', 'Thornhill', '{}', false, false, null)
+) as v (name, neighbourhood, hours, closed_shabbos, closed_yom_tov, hours_note)
+where st.name = v.name;
+
+-- Approximate locations, good enough for distances and the map
+update public.stores st
+set latitude = v.latitude, longitude = v.longitude
+from (values
+  ('Sobeys Clark & Hilda', 43.8046, -79.4459),
+  ('No Frills Bathurst & Steeles', 43.7893, -79.4446),
+  ('Metro Bathurst & Lawrence', 43.7186, -79.4290),
+  ('Walmart Promenade', 43.8076, -79.4510),
+  ('Kosher City Plus', 43.7338, -79.4336),
+  ('Costco Thornhill', 43.8237, -79.3870)
+) as v (name, latitude, longitude)
+where st.name = v.name;
+
+-- The sample catalogue is already reviewed (new entries start pending)
+insert into public.brands (name, status)
+select name, 'approved'
+from (values
+  ('Kedem'),
+  ('Manischewitz'),
+  ('Osem'),
+  ('Tnuva'),
+  ('Elite'),
+  ('Empire'),
+  ('Gefen'),
+  ('Lieber''s')
+) as v (name)
+on conflict (name) do nothing;
+
+insert into public.products (name, status)
+select name, 'approved'
+from (values
+  ('Grape Juice'),
+  ('Gefilte Fish'),
+  ('Matzo'),
+  ('Egg Noodles'),
+  ('Chicken Soup Mix'),
+  ('Cream Cheese'),
+  ('Milk Chocolate Bar'),
+  ('Frozen Chicken Breast'),
+  ('Olive Oil'),
+  ('Potato Chips')
+) as v (name)
+on conflict (name) do nothing;
+
+-- Categories come from the categories migration
+update public.products p
+set category_id = c.id
+from (values
+  ('Grape Juice', null, 'Wine & Grape Juice'),
+  ('Gefilte Fish', 'Fish', 'Canned & Jarred Fish'),
+  ('Matzo', 'Pesach', 'Matzo'),
+  ('Egg Noodles', 'Pantry', 'Pasta & Noodles'),
+  ('Chicken Soup Mix', 'Pantry', 'Soups & Mixes'),
+  ('Cream Cheese', 'Dairy', 'Cheese'),
+  ('Milk Chocolate Bar', 'Snacks & Sweets', 'Chocolate & Candy'),
+  ('Frozen Chicken Breast', 'Meat', 'Poultry'),
+  ('Olive Oil', 'Pantry', 'Oils & Vinegar'),
+  ('Potato Chips', 'Snacks & Sweets', 'Chips')
+) as v (product, parent, category)
+join public.categories c on c.name = v.category
+left join public.categories parent on parent.id = c.parent_id
+where p.name = v.product
+  and parent.name is not distinct from v.parent;
+
+insert into public.product_variants (product_id, brand_id, size_value, size_unit, flavour, status)
+select p.id, b.id, v.size_value, v.size_unit, v.flavour, 'approved'
+from (values
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord'),
+  ('Grape Juice', 'Kedem', 1.5, 'L', 'Concord'),
+  ('Grape Juice', 'Kedem', 64, 'oz', 'White'),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Jellied'),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Sweet'),
+  ('Matzo', 'Manischewitz', 454, 'g', null),
+  ('Matzo', 'Manischewitz', 2.27, 'kg', null),
+  ('Egg Noodles', 'Manischewitz', 340, 'g', 'Medium'),
+  ('Chicken Soup Mix', 'Osem', 400, 'g', null),
+  ('Cream Cheese', 'Tnuva', 227, 'g', 'Plain'),
+  ('Milk Chocolate Bar', 'Elite', 100, 'g', null),
+  ('Milk Chocolate Bar', 'Elite', 5, 'pack', null),
+  ('Frozen Chicken Breast', 'Empire', 1, 'kg', null),
+  ('Frozen Chicken Breast', 'Empire', 2, 'kg', null),
+  ('Olive Oil', 'Gefen', 1, 'L', 'Extra Virgin'),
+  ('Olive Oil', 'Gefen', 500, 'ml', 'Extra Virgin'),
+  ('Potato Chips', 'Lieber''s', 170, 'g', 'Salted')
+) as v (product, brand, size_value, size_unit, flavour)
+join public.products p on p.name = v.product
+join public.brands b on b.name = v.brand
+on conflict on constraint product_variants_identity_key do nothing;
+
+-- Kashrut, per product and brand (every size and flavour shares it here)
+update public.product_variants pv
+set hechshers = v.hechshers,
+    dietary = v.dietary::public.dietary_type,
+    chalav_yisrael = v.chalav_yisrael,
+    pas_yisroel = v.pas_yisroel,
+    kosher_for_passover = v.kosher_for_passover
+from (values
+  ('Grape Juice', 'Kedem', '{OU}'::text[], 'pareve', false, false, true),
+  ('Gefilte Fish', 'Manischewitz', '{OU}'::text[], 'pareve', false, false, true),
+  ('Matzo', 'Manischewitz', '{OU}'::text[], 'pareve', false, true, true),
+  ('Egg Noodles', 'Manischewitz', '{OU}'::text[], 'pareve', false, false, false),
+  ('Chicken Soup Mix', 'Osem', '{OU}'::text[], 'meat', false, false, false),
+  ('Cream Cheese', 'Tnuva', '{Badatz}'::text[], 'dairy', true, false, false),
+  ('Milk Chocolate Bar', 'Elite', '{Badatz}'::text[], 'dairy', true, false, false),
+  ('Frozen Chicken Breast', 'Empire', '{OU,COR}'::text[], 'meat', false, false, true),
+  ('Olive Oil', 'Gefen', '{OU}'::text[], 'pareve', false, false, true),
+  ('Potato Chips', 'Lieber''s', '{COR}'::text[], 'pareve', false, false, false)
+) as v (product, brand, hechshers, dietary, chalav_yisrael, pas_yisroel, kosher_for_passover)
+join public.products p on p.name = v.product
+join public.brands b on b.name = v.brand
+where pv.product_id = p.id and pv.brand_id = b.id;
+
+-- Approved prices spread over the last ~8 weeks. Only seeds when the table is
+-- empty, so re-running doesn't pile up duplicates.
+insert into public.price_submissions
+  (store_id, variant_id, price_cents, price_type, sale_end_date, created_at, is_approved, reviewed_at)
+select s.id, pv.id, v.price_cents, v.price_type::public.price_type,
+       case when v.price_type = 'sale' then current_date + 7 end,
+       now() - make_interval(days => v.days_ago), true, now() - make_interval(days => v.days_ago)
+from (values
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Sobeys Clark & Hilda', 899, 'regular', 50),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Sobeys Clark & Hilda', 949, 'regular', 12),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'No Frills Bathurst & Steeles', 829, 'regular', 20),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Kosher City Plus', 999, 'regular', 9),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Metro Bathurst & Lawrence', 699, 'sale', 3),
+  ('Grape Juice', 'Kedem', 1.5, 'L', 'Concord', 'Walmart Promenade', 697, 'regular', 15),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Jellied', 'Sobeys Clark & Hilda', 799, 'regular', 30),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Jellied', 'Kosher City Plus', 749, 'regular', 6),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Sweet', 'No Frills Bathurst & Steeles', 699, 'regular', 18),
+  ('Matzo', 'Manischewitz', 454, 'g', null, 'Walmart Promenade', 497, 'regular', 40),
+  ('Matzo', 'Manischewitz', 454, 'g', null, 'Metro Bathurst & Lawrence', 599, 'regular', 11),
+  ('Matzo', 'Manischewitz', 2.27, 'kg', null, 'Costco Thornhill', 1799, 'regular', 25),
+  ('Egg Noodles', 'Manischewitz', 340, 'g', 'Medium', 'Sobeys Clark & Hilda', 449, 'regular', 14),
+  ('Chicken Soup Mix', 'Osem', 400, 'g', null, 'Kosher City Plus', 899, 'regular', 8),
+  ('Chicken Soup Mix', 'Osem', 400, 'g', null, 'No Frills Bathurst & Steeles', 799, 'sale', 2),
+  ('Cream Cheese', 'Tnuva', 227, 'g', 'Plain', 'Sobeys Clark & Hilda', 549, 'regular', 10),
+  ('Cream Cheese', 'Tnuva', 227, 'g', 'Plain', 'Kosher City Plus', 499, 'regular', 4),
+  ('Milk Chocolate Bar', 'Elite', 100, 'g', null, 'Walmart Promenade', 297, 'regular', 21),
+  ('Milk Chocolate Bar', 'Elite', 5, 'pack', null, 'Costco Thornhill', 1199, 'regular', 21),
+  ('Frozen Chicken Breast', 'Empire', 1, 'kg', null, 'Kosher City Plus', 2499, 'regular', 7),
+  ('Frozen Chicken Breast', 'Empire', 2, 'kg', null, 'Costco Thornhill', 4299, 'regular', 16),
+  ('Frozen Chicken Breast', 'Empire', 1, 'kg', null, 'Sobeys Clark & Hilda', 2199, 'sale', 1),
+  ('Olive Oil', 'Gefen', 1, 'L', 'Extra Virgin', 'Metro Bathurst & Lawrence', 1499, 'regular', 35),
+  ('Olive Oil', 'Gefen', 500, 'ml', 'Extra Virgin', 'No Frills Bathurst & Steeles', 849, 'regular', 13),
+  ('Potato Chips', 'Lieber''s', 170, 'g', 'Salted', 'Kosher City Plus', 349, 'regular', 5),
+  ('Potato Chips', 'Lieber''s', 170, 'g', 'Salted', 'Walmart Promenade', 297, 'regular', 19)
+) as v (product, brand, size_value, size_unit, flavour, store, price_cents, price_type, days_ago)
+join public.products p on p.name = v.product
+join public.brands b on b.name = v.brand
+join public.product_variants pv
+  on pv.product_id = p.id
+  and pv.brand_id = b.id
+  and pv.size_value = v.size_value
+  and pv.size_unit = v.size_unit
+  and pv.flavour is not distinct from v.flavour
+join public.stores s on s.name = v.store
+where not exists (select 1 from public.price_submissions);
+
+insert into public.seasons (name, holiday, starts_on, ends_on) values
+  ('Rosh Hashanah 2025', 'rosh_hashanah', '2025-09-05', '2025-09-24'),
+  ('Pesach 2026', 'pesach', '2026-03-08', '2026-04-09'),
+  ('Rosh Hashanah 2026', 'rosh_hashanah', '2026-08-28', '2026-09-13'),
+  ('Pesach 2027', 'pesach', '2027-03-28', '2027-04-29')
+on conflict (name) do nothing;
+
+update public.product_variants pv
+set holidays = v.holidays::public.holiday[]
+from (values
+  ('Grape Juice', 'Kedem', '{pesach,rosh_hashanah}'),
+  ('Gefilte Fish', 'Manischewitz', '{pesach,rosh_hashanah}'),
+  ('Matzo', 'Manischewitz', '{pesach}'),
+  ('Frozen Chicken Breast', 'Empire', '{pesach,rosh_hashanah}'),
+  ('Olive Oil', 'Gefen', '{pesach}')
+) as v (product, brand, holidays)
+join public.products p on p.name = v.product
+join public.brands b on b.name = v.brand
+where pv.product_id = p.id and pv.brand_id = b.id;
+
+-- Last year's holiday prices, so season mode has something to compare with
+insert into public.price_submissions
+  (store_id, variant_id, price_cents, price_type, sale_end_date, created_at, is_approved, reviewed_at)
+select s.id, pv.id, v.price_cents, v.price_type::public.price_type,
+       case when v.price_type = 'sale' then v.created_on + 5 end,
+       v.created_on, true, v.created_on
+from (values
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Sobeys Clark & Hilda', 849, 'regular', date '2025-09-10'),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Kosher City Plus', 949, 'regular', date '2025-09-15'),
+  ('Gefilte Fish', 'Manischewitz', 680, 'g', 'Jellied', 'Kosher City Plus', 699, 'sale', date '2025-09-18'),
+  ('Frozen Chicken Breast', 'Empire', 1, 'kg', null, 'Kosher City Plus', 2299, 'regular', date '2025-09-12'),
+  ('Grape Juice', 'Kedem', 1.89, 'L', 'Concord', 'Sobeys Clark & Hilda', 799, 'sale', date '2026-03-25'),
+  ('Matzo', 'Manischewitz', 454, 'g', null, 'Walmart Promenade', 447, 'regular', date '2026-03-20'),
+  ('Matzo', 'Manischewitz', 2.27, 'kg', null, 'Costco Thornhill', 1699, 'regular', date '2026-03-18'),
+  ('Olive Oil', 'Gefen', 1, 'L', 'Extra Virgin', 'Metro Bathurst & Lawrence', 1399, 'sale', date '2026-03-29')
+) as v (product, brand, size_value, size_unit, flavour, store, price_cents, price_type, created_on)
+join public.products p on p.name = v.product
+join public.brands b on b.name = v.brand
+join public.product_variants pv
+  on pv.product_id = p.id
+  and pv.brand_id = b.id
+  and pv.size_value = v.size_value
+  and pv.size_unit = v.size_unit
+  and pv.flavour is not distinct from v.flavour
+join public.stores s on s.name = v.store
+where not exists (select 1 from public.price_submissions where created_at < '2026-06-01');
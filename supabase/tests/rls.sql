@@ -0,0 +1,319 @@
+-- Checks that row-level security and the grants keep each role to what the
+-- app allows it: the anon key can only propose pending entries and prices,
+-- signed-in users only touch their own alerts, and only moderators review.
+-- Run it against a migrated database (it needs no seed):
+--
+--   DATABASE_URL=postgres://localhost/kosher_prices npm run db:test
+--
+-- Everything happens in one transaction that is rolled back, so it leaves the
+-- database as it found it. The first failing check stops the run with a
+-- "FAIL: ..." error.
+
+\set QUIET on
+\set ON_ERROR_STOP on
+-- Only the \echo lines below are worth reading
+\o /dev/null
+
+begin;
+
+-- Runs `statement` as the current role; it must be refused, either by a
+-- policy ("new row violates row-level security policy") or a missing grant.
+create function pg_temp.expect_denied(statement text, what text) returns void
+language plpgsql
+as $$
+begin
+  execute statement;
+  raise exception 'FAIL: % was allowed', what;
+exception
+  when insufficient_privilege then
+    null;
+end
+$$;
+
+-- Runs `statement` as the current role; it must read or change exactly
+-- `expected` rows. Policies hide rows rather than refuse, so this is how an
+-- update someone may not make shows up.
+create function pg_temp.expect_rows(statement text, expected integer, what text) returns void
+language plpgsql
+as $$
+declare
+  n integer;
+begin
+  execute statement;
+  get diagnostics n = row_count;
+  if n <> expected then
+    raise exception 'FAIL: % touched % row(s), expected %', what, n, expected;
+  end if;
+end
+$$;
+
+grant execute on all functions in schema pg_temp to anon, authenticated;
+
+-- Fixtures, written as the owner. a001 is a moderator, a002 and a003 are
+-- ordinary signed-in users.
+insert into auth.users (id, email, raw_app_meta_data) values
+  ('00000000-0000-0000-0000-00000000a001', 'moderator@rls.test', '{"role": "moderator"}'),
+  ('00000000-0000-0000-0000-00000000a002', 'shopper@rls.test', '{}'),
+  ('00000000-0000-0000-0000-00000000a003', 'other@rls.test', '{}');
+
+insert into public.stores (id, name, is_active) values
+  ('00000000-0000-0000-0000-00000000b001', 'RLS test store', true),
+  ('00000000-0000-0000-0000-00000000b005', 'RLS closed store', false);
+insert into public.brands (id, name, status) values ('00000000-0000-0000-0000-00000000b002', 'RLS test brand', 'approved');
+insert into public.products (id, name, status) values ('00000000-0000-0000-0000-00000000b003', 'RLS test product', 'approved');
+insert into public.product_variants (id, product_id, brand_id, status) values
+  ('00000000-0000-0000-0000-00000000b004', '00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', 'approved');
+insert into public.product_variants (id, product_id, brand_id, flavour, status, archived_at) values
+  ('00000000-0000-0000-0000-00000000b006', '00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', 'Discontinued', 'approved', now());
+
+insert into public.price_submissions (id, store_id, variant_id, price_cents, price_type, is_approved) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 499, 'regular', false),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 399, 'sale', false),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 449, 'regular', true);
+
+insert into public.submission_submitters (submission_id, submitter_id) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000d001');
+
+insert into public.watches (id, user_id, variant_id, notify_on_sale) values
+  ('00000000-0000-0000-0000-00000000e002', '00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-00000000b004', true),
+  ('00000000-0000-0000-0000-00000000e003', '00000000-0000-0000-0000-00000000a003', '00000000-0000-0000-0000-00000000b004', true);
+
+insert into public.notifications (id, user_id, watch_id, variant_id, submission_id, kinds, message) values
+  ('00000000-0000-0000-0000-00000000f002', '00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-00000000e002',
+   '00000000-0000-0000-0000-00000000b004', '00000000-0000-0000-0000-00000000c003', '{sale}', 'On sale'),
+  ('00000000-0000-0000-0000-00000000f003', '00000000-0000-0000-0000-00000000a003', '00000000-0000-0000-0000-00000000e003',
+   '00000000-0000-0000-0000-00000000b004', '00000000-0000-0000-0000-00000000c003', '{sale}', 'On sale');
+
+\echo 'anon: price submissions'
+set local role anon;
+set local request.jwt.claims = '';
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, is_approved)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', true)
+$$, 'anon inserting an approved price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, reviewed_at)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', now())
+$$, 'anon inserting a reviewed price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, reviewed_by)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', '00000000-0000-0000-0000-00000000a001')
+$$, 'anon inserting a price with a reviewer');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, rejection_reason)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', 'spam')
+$$, 'anon inserting a rejected price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, original_price_cents)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', 200)
+$$, 'anon inserting an edited price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, created_at)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', '2099-01-01')
+$$, 'anon inserting a future-dated price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, created_at)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', now() - interval '1 day')
+$$, 'anon inserting a back-dated price');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, outlier_confidence)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', 0)
+$$, 'anon inserting a price with an outlier score');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type, outlier_flags)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular', '{}')
+$$, 'anon inserting a price with outlier flags');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type)
+  values ('00000000-0000-0000-0000-00000000b005', '00000000-0000-0000-0000-00000000b004', 100, 'regular')
+$$, 'anon pricing at an inactive store');
+
+select pg_temp.expect_denied($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b006', 100, 'regular')
+$$, 'anon pricing an archived variant');
+
+select pg_temp.expect_rows($$
+  insert into public.price_submissions (store_id, variant_id, price_cents, price_type)
+  values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b004', 100, 'regular')
+$$, 1, 'anon submitting a pending price');
+
+select pg_temp.expect_rows($$
+  select id from public.price_submissions where not is_approved
+$$, 0, 'anon reading pending prices');
+
+select pg_temp.expect_rows($$
+  update public.price_submissions set is_approved = true where id = '00000000-0000-0000-0000-00000000c001'
+$$, 0, 'anon approving a price');
+
+select pg_temp.expect_rows($$
+  update public.price_submissions set price_cents = 1 where id = '00000000-0000-0000-0000-00000000c003'
+$$, 0, 'anon changing an approved price');
+
+select pg_temp.expect_rows($$
+  delete from public.price_submissions
+$$, 0, 'anon deleting prices');
+
+\echo 'anon: who submitted what'
+select pg_temp.expect_rows($$
+  select submitter_id from public.submission_submitters
+$$, 0, 'anon reading submitters');
+
+select pg_temp.expect_denied($$
+  insert into public.submission_submitters (submission_id, submitter_id)
+  values ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-00000000d001')
+$$, 'anon stamping a submitter');
+
+select pg_temp.expect_denied($$
+  select * from public.latest_prices('00000000-0000-0000-0000-00000000d001')
+$$, 'anon calling latest_prices');
+
+select pg_temp.expect_denied($$
+  select public.insert_price_submissions('[]', '00000000-0000-0000-0000-00000000d001')
+$$, 'anon calling insert_price_submissions');
+
+\echo 'anon: stores and the catalogue'
+select pg_temp.expect_rows($$
+  update public.stores set name = 'Renamed' where id = '00000000-0000-0000-0000-00000000b001'
+$$, 0, 'anon renaming a store');
+
+select pg_temp.expect_denied($$
+  insert into public.stores (name) values ('RLS anon store')
+$$, 'anon adding a store');
+
+select pg_temp.expect_rows($$
+  update public.brands set name = 'Renamed' where id = '00000000-0000-0000-0000-00000000b002'
+$$, 0, 'anon renaming a brand');
+
+select pg_temp.expect_rows($$
+  update public.products set name = 'Renamed' where id = '00000000-0000-0000-0000-00000000b003'
+$$, 0, 'anon renaming a product');
+
+select pg_temp.expect_rows($$
+  update public.product_variants set flavour = 'Renamed' where id = '00000000-0000-0000-0000-00000000b004'
+$$, 0, 'anon editing a variant');
+
+select pg_temp.expect_denied($$
+  insert into public.brands (name, status) values ('RLS anon brand', 'approved')
+$$, 'anon adding an approved brand');
+
+select pg_temp.expect_denied($$
+  insert into public.brands (name, status, duplicate_of) values ('RLS anon brand', 'pending', '00000000-0000-0000-0000-00000000b002')
+$$, 'anon adding a brand marked as a duplicate');
+
+select pg_temp.expect_denied($$
+  insert into public.products (name, status) values ('RLS anon product', 'approved')
+$$, 'anon adding an approved product');
+
+select pg_temp.expect_denied($$
+  insert into public.product_variants (product_id, brand_id, flavour, status)
+  values ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', 'RLS anon', 'approved')
+$$, 'anon adding an approved variant');
+
+select pg_temp.expect_denied($$
+  insert into public.product_variants (product_id, brand_id, flavour, status, reviewed_at)
+  values ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', 'RLS anon', 'pending', now())
+$$, 'anon adding a reviewed variant');
+
+select pg_temp.expect_rows($$
+  insert into public.brands (name, status) values ('RLS anon brand', 'pending')
+$$, 1, 'anon proposing a brand');
+
+select pg_temp.expect_rows($$
+  insert into public.products (name, status) values ('RLS anon product', 'pending')
+$$, 1, 'anon proposing a product');
+
+select pg_temp.expect_rows($$
+  insert into public.product_variants (product_id, brand_id, flavour, status)
+  values ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', 'RLS anon', 'pending')
+$$, 1, 'anon proposing a variant');
+
+select pg_temp.expect_denied($$
+  select public.merge_catalogue_entries('brand', '00000000-0000-0000-0000-00000000b002', '00000000-0000-0000-0000-00000000b002', 'a', 'b')
+$$, 'anon merging catalogue entries');
+
+select pg_temp.expect_denied($$
+  select public.edit_catalogue_entry('brand', '00000000-0000-0000-0000-00000000b002', '{"name": "Renamed"}', '{"name": {"from": "a", "to": "b"}}')
+$$, 'anon editing a catalogue entry');
+
+select pg_temp.expect_denied($$
+  update public.notifications set read_at = now()
+$$, 'anon marking notifications read');
+
+\echo 'signed-in user: reviewing and alerts'
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000a002", "app_metadata": {}}';
+
+select pg_temp.expect_rows($$
+  update public.price_submissions
+  set is_approved = true, reviewed_by = '00000000-0000-0000-0000-00000000a002', reviewed_at = now()
+  where id = '00000000-0000-0000-0000-00000000c001'
+$$, 0, 'a non-moderator approving a price');
+
+select pg_temp.expect_rows($$
+  update public.price_submissions
+  set rejection_reason = 'spam', reviewed_by = '00000000-0000-0000-0000-00000000a002', reviewed_at = now()
+  where id = '00000000-0000-0000-0000-00000000c002'
+$$, 0, 'a non-moderator rejecting a price');
+
+select pg_temp.expect_rows($$
+  select submitter_id from public.submission_submitters
+$$, 0, 'a non-moderator reading submitters');
+
+select pg_temp.expect_denied($$
+  select public.merge_catalogue_entries('brand', '00000000-0000-0000-0000-00000000b002', '00000000-0000-0000-0000-00000000b002', 'a', 'b')
+$$, 'a non-moderator merging catalogue entries');
+
+select pg_temp.expect_denied($$
+  select public.edit_catalogue_entry('brand', '00000000-0000-0000-0000-00000000b002', '{"name": "Renamed"}', '{"name": {"from": "a", "to": "b"}}')
+$$, 'a non-moderator editing a catalogue entry');
+
+select pg_temp.expect_rows($$
+  update public.notifications set read_at = now() where id = '00000000-0000-0000-0000-00000000f002'
+$$, 1, 'marking one''s own notification read');
+
+select pg_temp.expect_denied($$
+  update public.notifications set message = 'Edited' where id = '00000000-0000-0000-0000-00000000f002'
+$$, 'editing a notification''s message');
+
+select pg_temp.expect_rows($$
+  update public.notifications set read_at = now() where id = '00000000-0000-0000-0000-00000000f003'
+$$, 0, 'marking someone else''s notification read');
+
+\echo 'moderator: reviewing'
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000a001", "app_metadata": {"role": "moderator"}}';
+
+select pg_temp.expect_rows($$
+  select id from public.price_submissions where not is_approved
+$$, 3, 'a moderator reading pending prices');
+
+select pg_temp.expect_rows($$
+  select submitter_id from public.submission_submitters where submission_id = '00000000-0000-0000-0000-00000000c001'
+$$, 1, 'a moderator reading a submitter');
+
+select pg_temp.expect_rows($$
+  update public.price_submissions
+  set is_approved = true, reviewed_by = '00000000-0000-0000-0000-00000000a001', reviewed_at = now()
+  where id = '00000000-0000-0000-0000-00000000c001'
+$$, 1, 'a moderator approving a price');
+
+select pg_temp.expect_rows($$
+  update public.price_submissions
+  set rejection_reason = 'spam', reviewed_by = '00000000-0000-0000-0000-00000000a001', reviewed_at = now()
+  where id = '00000000-0000-0000-0000-00000000c002'
+$$, 1, 'a moderator rejecting a price');
+
+rollback;
+
+\echo 'All RLS checks passed.'